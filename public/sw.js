@@ -0,0 +1,91 @@
+// Service worker: keeps the app shell and the last API responses available offline.
+// Payments themselves are queued by the page (src/lib/paymentQueue.ts), not here.
+const CACHE_NAME = 'debt-tracker-v1';
+const APP_SHELL = ['/', '/manifest.webmanifest', '/icon.svg'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.addAll(APP_SHELL)));
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Build assets are content-hashed, so the cached copy is always right
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(CACHE_NAME);
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// Pages and API reads prefer fresh data and fall back to the last copy seen
+async function networkFirst(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(CACHE_NAME);
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    // /?account=... pages share the same shell
+    if (request.mode === 'navigate') {
+      const shell = await caches.match('/', { ignoreSearch: true });
+      if (shell) return shell;
+    }
+    throw error;
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request));
+  } else {
+    event.respondWith(networkFirst(request));
+  }
+});
+
+// Pending-payment reminders sent by the server (src/lib/notifications.ts)
+self.addEventListener('push', (event) => {
+  const reminder = event.data ? event.data.json() : { title: 'Pago pendiente', body: '', url: '/' };
+  event.waitUntil(self.registration.showNotification(reminder.title, {
+    body: reminder.body,
+    icon: '/icon.svg',
+    tag: `reminder-${reminder.accountKey || 'test'}`,
+    renotify: Boolean(reminder.urgent),
+    requireInteraction: Boolean(reminder.urgent),
+    data: { url: reminder.url || '/' },
+  }));
+});
+
+// Open the account, reusing a tab of the app when there is one
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data.url, self.location.origin).toString();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => new URL(client.url).origin === self.location.origin);
+      if (existing) {
+        return existing.navigate(url).then((client) => (client || existing).focus());
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { getAdherenceStats } from '@/lib/ynab';
+import { requireAccountConfig } from '@/lib/config';
+import { errorResponse } from '@/lib/http';
+
+export async function GET(_request: Request, { params }: { params: Promise<{ key: string }> }) {
+  try {
+    const { key } = await params;
+    const config = await requireAccountConfig(key);
+    return NextResponse.json(await getAdherenceStats(config));
+  } catch (error) {
+    return errorResponse(error, 'Error computing payment analytics');
+  }
+}
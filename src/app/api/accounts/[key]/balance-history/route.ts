@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { getBalanceHistory } from '@/lib/ynab';
+import { requireAccountConfig } from '@/lib/config';
+import { HttpError, errorResponse } from '@/lib/http';
+import { BALANCE_RANGES, type BalanceRange } from '@/lib/debt';
+
+export async function GET(request: Request, { params }: { params: Promise<{ key: string }> }) {
+  try {
+    const { key } = await params;
+    const config = await requireAccountConfig(key);
+
+    const range = new URL(request.url).searchParams.get('range') || '30d';
+    if (!Object.hasOwn(BALANCE_RANGES, range)) {
+      throw new HttpError(400, `Unknown range "${range}". Use one of: ${Object.keys(BALANCE_RANGES).join(', ')}`);
+    }
+
+    return NextResponse.json(await getBalanceHistory(config, range as BalanceRange));
+  } catch (error) {
+    return errorResponse(error, 'Error fetching balance history');
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import dayjs from 'dayjs';
+import { getCalendarMonth } from '@/lib/ynab';
+import { requireAccountConfig } from '@/lib/config';
+import { HttpError, errorResponse } from '@/lib/http';
+import { isValidDate } from '@/lib/validation';
+
+export async function GET(request: Request, { params }: { params: Promise<{ key: string }> }) {
+  try {
+    const { key } = await params;
+    const config = await requireAccountConfig(key);
+
+    const month = new URL(request.url).searchParams.get('month') || dayjs().format('YYYY-MM');
+    if (!isValidDate(`${month}-01`)) {
+      throw new HttpError(400, 'Month must be a valid YYYY-MM month');
+    }
+
+    return NextResponse.json(await getCalendarMonth(config, month));
+  } catch (error) {
+    return errorResponse(error, 'Error fetching payment calendar');
+  }
+}
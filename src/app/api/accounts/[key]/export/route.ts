@@ -0,0 +1,19 @@
+import { getHistoryExport, getScheduleExport } from '@/lib/ynab';
+import { requireAccountConfig } from '@/lib/config';
+import { errorResponse } from '@/lib/http';
+import { exportResponse, parseExportOptions } from '@/lib/export';
+
+export async function GET(request: Request, { params }: { params: Promise<{ key: string }> }) {
+  try {
+    const { key } = await params;
+    const config = await requireAccountConfig(key);
+    const options = parseExportOptions(new URL(request.url).searchParams);
+
+    const rows = options.type === 'history'
+      ? await getHistoryExport(key, config, options)
+      : await getScheduleExport(key, config, options);
+    return exportResponse(rows, options, key);
+  } catch (error) {
+    return errorResponse(error, 'Error exporting account');
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import dayjs from 'dayjs';
+import { registerBlankPayment, registerPayment } from '@/lib/ynab';
+import { requireAccountConfig } from '@/lib/config';
+import { HttpError, errorResponse, readJsonBody } from '@/lib/http';
+import { isValidDate } from '@/lib/validation';
+import type { PaymentRequest } from '@/lib/api';
+
+export async function POST(request: Request, { params }: { params: Promise<{ key: string }> }) {
+  try {
+    const { key } = await params;
+    const config = await requireAccountConfig(key);
+    const body = await readJsonBody<PaymentRequest>(request);
+
+    // Payments queued while offline are replayed later with the day they were made
+    if (body.date !== undefined && (!isValidDate(body.date) || body.date > dayjs().format('YYYY-MM-DD'))) {
+      throw new HttpError(400, 'Payment date must be a valid YYYY-MM-DD date that is not in the future');
+    }
+    if (typeof body.nonce !== 'string' || !body.nonce || body.nonce.length > 100) {
+      throw new HttpError(400, 'A payment nonce is required');
+    }
+
+    if (body.kind === 'blank') {
+      if (typeof body.reason !== 'string' || !body.reason.trim()) {
+        throw new HttpError(400, 'A reason is required for a blank payment');
+      }
+      // The reason becomes the YNAB memo, so it gets the same limit as a payment's memo
+      if (body.reason.trim().length > 200) {
+        throw new HttpError(400, 'Blank payment reason must be at most 200 characters');
+      }
+      const result = await registerBlankPayment(config, body.reason.trim(), body.nonce, body.date);
+      return NextResponse.json(result, { status: result.duplicate ? 200 : 201 });
+    }
+
+    if (body.kind === 'payment') {
+      if (typeof body.method !== 'string' || !body.method) {
+        throw new HttpError(400, 'A payment method is required');
+      }
+      if (typeof body.amount !== 'number' || !(body.amount > 0)) {
+        throw new HttpError(400, 'Payment amount must be a positive number');
+      }
+      if (body.memo !== undefined && (typeof body.memo !== 'string' || body.memo.length > 200)) {
+        throw new HttpError(400, 'Memo must be text of at most 200 characters');
+      }
+      const result = await registerPayment(config, body.method, body.amount, body.nonce, body.date, body.memo);
+      return NextResponse.json(result, { status: result.duplicate ? 200 : 201 });
+    }
+
+    throw new HttpError(400, 'Unknown payment kind');
+  } catch (error) {
+    return errorResponse(error, 'Error creating payment');
+  }
+}
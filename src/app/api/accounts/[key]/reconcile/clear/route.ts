@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { markPaymentsCleared } from '@/lib/ynab';
+import { requireAccountConfig } from '@/lib/config';
+import { HttpError, errorResponse, readJsonBody } from '@/lib/http';
+
+export async function POST(request: Request, { params }: { params: Promise<{ key: string }> }) {
+  try {
+    const { key } = await params;
+    const config = await requireAccountConfig(key);
+    const body = await readJsonBody<{ transactionIds?: unknown }>(request);
+
+    const ids = body.transactionIds;
+    if (!Array.isArray(ids) || ids.length === 0 || !ids.every((id) => typeof id === 'string' && id)) {
+      throw new HttpError(400, 'transactionIds must be a non-empty list of transaction ids');
+    }
+
+    await markPaymentsCleared(config, ids);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error, 'Error clearing transactions');
+  }
+}
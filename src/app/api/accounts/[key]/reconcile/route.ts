@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { reconcileStatement } from '@/lib/ynab';
+import { requireAccountConfig } from '@/lib/config';
+import { HttpError, errorResponse, readJsonBody } from '@/lib/http';
+import { isValidDate } from '@/lib/validation';
+import type { ReconcileRequest, StatementLine } from '@/lib/reconcile';
+
+// A few years of daily payments, anything bigger is not a statement of this debt
+const MAX_STATEMENT_LINES = 5000;
+
+function parseStatementLine(value: unknown, index: number): StatementLine {
+  const line = value as Partial<StatementLine> | null;
+  if (!line || !Number.isInteger(line.row)) {
+    throw new HttpError(400, `lines[${index}]: row must be a whole number`);
+  }
+  if (!isValidDate(line.date)) {
+    throw new HttpError(400, `lines[${index}] (row ${line.row}): date must be a valid YYYY-MM-DD date`);
+  }
+  if (typeof line.amount !== 'number' || !(line.amount > 0)) {
+    throw new HttpError(400, `lines[${index}] (row ${line.row}): amount must be a positive number`);
+  }
+  return {
+    row: line.row as number,
+    date: line.date,
+    amount: line.amount,
+    description: typeof line.description === 'string' ? line.description.slice(0, 200) : '',
+  };
+}
+
+export async function POST(request: Request, { params }: { params: Promise<{ key: string }> }) {
+  try {
+    const { key } = await params;
+    const config = await requireAccountConfig(key);
+    const body = await readJsonBody<ReconcileRequest>(request);
+
+    if (typeof body.source !== 'string' || !body.source) {
+      throw new HttpError(400, 'A statement source is required');
+    }
+    if (!Array.isArray(body.lines) || body.lines.length === 0 || body.lines.length > MAX_STATEMENT_LINES) {
+      throw new HttpError(400, `The statement must have between 1 and ${MAX_STATEMENT_LINES} lines`);
+    }
+    if (body.toleranceDays !== undefined && (!Number.isInteger(body.toleranceDays) || body.toleranceDays < 0 || body.toleranceDays > 31)) {
+      throw new HttpError(400, 'toleranceDays must be a whole number between 0 and 31');
+    }
+
+    const lines = body.lines.map(parseStatementLine);
+    return NextResponse.json(await reconcileStatement(config, body.source, lines, body.toleranceDays));
+  } catch (error) {
+    return errorResponse(error, 'Error reconciling statement');
+  }
+}
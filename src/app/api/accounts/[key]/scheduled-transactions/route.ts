@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { removeScheduledPayments, syncScheduledPayments } from '@/lib/ynab';
+import { getPaymentAccounts } from '@/lib/debt';
+import { requireAccountConfig, saveAccountConfig } from '@/lib/config';
+import { HttpError, errorResponse, readJsonBody } from '@/lib/http';
+
+// Turn on the YNAB scheduled transactions of the plan, paid from the given method, and sync them now
+export async function POST(request: Request, { params }: { params: Promise<{ key: string }> }) {
+  try {
+    const { key } = await params;
+    const config = await requireAccountConfig(key);
+    const body = await readJsonBody<{ paymentMethod?: unknown }>(request);
+
+    const { paymentMethod } = body;
+    if (typeof paymentMethod !== 'string' || !getPaymentAccounts(config)[paymentMethod]) {
+      throw new HttpError(400, 'paymentMethod must be a payment method with a payment account');
+    }
+
+    // Sync before saving, so a plan YNAB can't repeat is never stored as enabled
+    const next = { ...config, ynabSchedule: { enabled: true, paymentMethod } };
+    const result = await syncScheduledPayments(next);
+    await saveAccountConfig(key, next);
+    return NextResponse.json(result);
+  } catch (error) {
+    return errorResponse(error, 'Error syncing scheduled transactions');
+  }
+}
+
+// Delete the plan's scheduled transactions from YNAB and stop syncing them
+export async function DELETE(_request: Request, { params }: { params: Promise<{ key: string }> }) {
+  try {
+    const { key } = await params;
+    const config = await requireAccountConfig(key);
+
+    const result = await removeScheduledPayments(config);
+    const next = { ...config };
+    delete next.ynabSchedule;
+    await saveAccountConfig(key, next);
+    return NextResponse.json(result);
+  } catch (error) {
+    return errorResponse(error, 'Error removing scheduled transactions');
+  }
+}
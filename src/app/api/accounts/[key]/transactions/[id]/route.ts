@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import dayjs from 'dayjs';
+import { deletePayment, updatePayment } from '@/lib/ynab';
+import { requireAccountConfig } from '@/lib/config';
+import { HttpError, errorResponse, readJsonBody } from '@/lib/http';
+import { isValidDate } from '@/lib/validation';
+import type { PaymentUpdate } from '@/lib/api';
+
+// Keep only the fields being corrected, rejecting anything malformed
+function parsePaymentUpdate(body: PaymentUpdate): PaymentUpdate {
+  const update: PaymentUpdate = {};
+
+  if (body.amount !== undefined) {
+    if (typeof body.amount !== 'number' || !(body.amount > 0)) {
+      throw new HttpError(400, 'Payment amount must be a positive number');
+    }
+    update.amount = body.amount;
+  }
+  if (body.date !== undefined) {
+    if (!isValidDate(body.date) || body.date > dayjs().format('YYYY-MM-DD')) {
+      throw new HttpError(400, 'Payment date must be a valid YYYY-MM-DD date that is not in the future');
+    }
+    update.date = body.date;
+  }
+  if (body.memo !== undefined) {
+    if (typeof body.memo !== 'string' || body.memo.length > 200) {
+      throw new HttpError(400, 'Memo must be text of at most 200 characters');
+    }
+    update.memo = body.memo;
+  }
+  if (body.method !== undefined) {
+    if (typeof body.method !== 'string' || !body.method) {
+      throw new HttpError(400, 'Payment method must be a non-empty string');
+    }
+    update.method = body.method;
+  }
+
+  if (Object.keys(update).length === 0) {
+    throw new HttpError(400, 'Nothing to update');
+  }
+  return update;
+}
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ key: string; id: string }> }) {
+  try {
+    const { key, id } = await params;
+    const config = await requireAccountConfig(key);
+    const update = parsePaymentUpdate(await readJsonBody<PaymentUpdate>(request));
+
+    await updatePayment(config, id, update);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error, 'Error updating transaction');
+  }
+}
+
+export async function DELETE(_request: Request, { params }: { params: Promise<{ key: string; id: string }> }) {
+  try {
+    const { key, id } = await params;
+    const config = await requireAccountConfig(key);
+
+    await deletePayment(config, id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error, 'Error deleting transaction');
+  }
+}
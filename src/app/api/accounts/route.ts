@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { getAccountOverviews } from '@/lib/ynab';
+import { getAccountConfigs } from '@/lib/config';
+import { errorResponse } from '@/lib/http';
+
+export async function GET() {
+  try {
+    const configs = await getAccountConfigs();
+    return NextResponse.json(await getAccountOverviews(configs));
+  } catch (error) {
+    return errorResponse(error, 'Error fetching accounts');
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getPaymentCalendarFeed } from '@/lib/ynab';
+import { requireAccountConfig } from '@/lib/config';
+import { errorResponse } from '@/lib/http';
+
+// Served as /api/calendar/<key>.ics so calendar apps recognise the feed
+export async function GET(_request: Request, { params }: { params: Promise<{ account: string }> }) {
+  try {
+    const { account } = await params;
+    const key = account.replace(/\.ics$/, '');
+    const config = await requireAccountConfig(key);
+
+    return new NextResponse(await getPaymentCalendarFeed(key, config), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `inline; filename="${key}.ics"`,
+        'Cache-Control': 'no-cache',
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, 'Error building calendar feed');
+  }
+}
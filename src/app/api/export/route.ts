@@ -0,0 +1,22 @@
+import { getHistoryExport, getScheduleExport } from '@/lib/ynab';
+import { getAccountConfigs } from '@/lib/config';
+import { errorResponse } from '@/lib/http';
+import { exportResponse, parseExportOptions } from '@/lib/export';
+
+// Every configured account in one file, ordered by date
+export async function GET(request: Request) {
+  try {
+    const configs = await getAccountConfigs();
+    const options = parseExportOptions(new URL(request.url).searchParams);
+
+    const perAccount = await Promise.all(Object.entries(configs).map(([key, config]) => (
+      options.type === 'history'
+        ? getHistoryExport(key, config, options)
+        : getScheduleExport(key, config, options)
+    )));
+    const rows = perAccount.flat().sort((a, b) => a.date.localeCompare(b.date) || a.account.localeCompare(b.account));
+    return exportResponse(rows, options, 'deudas');
+  } catch (error) {
+    return errorResponse(error, 'Error exporting accounts');
+  }
+}
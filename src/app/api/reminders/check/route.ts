@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { checkReminders } from '@/lib/reminders';
+import { errorResponse } from '@/lib/http';
+
+// Run the reminder check now, e.g. from an external cron instead of the built-in scheduler
+export async function POST() {
+  try {
+    return NextResponse.json(await checkReminders());
+  } catch (error) {
+    return errorResponse(error, 'Error checking reminders');
+  }
+}
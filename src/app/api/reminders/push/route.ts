@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { getPushPublicKey, removePushSubscriptions, savePushSubscription } from '@/lib/notifications';
+import { HttpError, errorResponse, readJsonBody } from '@/lib/http';
+
+// Public key for PushManager.subscribe, null when web push is not configured on the server
+export async function GET() {
+  return NextResponse.json({ publicKey: getPushPublicKey() });
+}
+
+// Register this browser for push reminders
+export async function POST(request: Request) {
+  try {
+    if (!getPushPublicKey()) {
+      throw new HttpError(409, 'Web push is not configured on the server (VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY)');
+    }
+    const body = await readJsonBody<{ endpoint?: unknown; keys?: { p256dh?: unknown; auth?: unknown } | null }>(request);
+
+    const { endpoint, keys } = body;
+    if (typeof endpoint !== 'string' || !endpoint.startsWith('https://')) {
+      throw new HttpError(400, 'endpoint must be the https URL of a push subscription');
+    }
+    if (typeof keys?.p256dh !== 'string' || typeof keys.auth !== 'string') {
+      throw new HttpError(400, 'keys must include the p256dh and auth strings of the subscription');
+    }
+
+    await savePushSubscription({ endpoint, keys: { p256dh: keys.p256dh, auth: keys.auth } });
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error, 'Error saving push subscription');
+  }
+}
+
+// Stop sending push reminders to this browser
+export async function DELETE(request: Request) {
+  try {
+    const body = await readJsonBody<{ endpoint?: unknown }>(request);
+    if (typeof body.endpoint !== 'string' || !body.endpoint) {
+      throw new HttpError(400, 'endpoint must be the URL of a push subscription');
+    }
+
+    await removePushSubscriptions([body.endpoint]);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error, 'Error removing push subscription');
+  }
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { sendTestNotification } from '@/lib/reminders';
+import { errorResponse } from '@/lib/http';
+
+export async function POST() {
+  try {
+    return NextResponse.json(await sendTestNotification());
+  } catch (error) {
+    return errorResponse(error, 'Error sending test notification');
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { deleteAccountConfig, getAccountConfig, saveAccountConfig } from '@/lib/config';
+import { removeScheduledPayments, syncScheduledPayments, verifyAccountConfig } from '@/lib/ynab';
+import { HttpError, errorResponse, readJsonBody } from '@/lib/http';
+import { isValidAccountKey, validateAccountConfig } from '@/lib/validation';
+import type { AccountConfig } from '@/lib/debt';
+
+// Keep the YNAB scheduled transactions in step with a changed config. The config is already
+// saved, so a YNAB failure is only logged; the next sync from the settings page retries it.
+async function updateScheduledPayments(previous: AccountConfig | null, config: AccountConfig) {
+  try {
+    // Moving the debt to another YNAB account leaves the old schedule behind otherwise
+    if (previous?.ynabSchedule && (previous.accountId !== config.accountId || previous.budgetId !== config.budgetId)) {
+      await removeScheduledPayments(previous);
+    }
+    if (config.ynabSchedule || previous?.ynabSchedule) {
+      await syncScheduledPayments(config);
+    }
+  } catch (error) {
+    console.error('Error updating scheduled transactions after a config change:', error);
+  }
+}
+
+export async function PUT(request: Request, { params }: { params: Promise<{ key: string }> }) {
+  try {
+    const { key } = await params;
+    if (!isValidAccountKey(key)) {
+      throw new HttpError(400, 'Account keys may only contain lowercase letters, digits and dashes');
+    }
+
+    const body: unknown = await readJsonBody(request);
+    const issues = validateAccountConfig(body, key);
+    if (issues.length > 0) {
+      throw new HttpError(400, issues.join('\n'));
+    }
+
+    // Make sure the picked accounts really live in the picked budget
+    const config = body as AccountConfig;
+    await verifyAccountConfig(config);
+
+    const previous = await getAccountConfig(key);
+    const saved = await saveAccountConfig(key, config);
+    await updateScheduledPayments(previous, saved);
+    return NextResponse.json(saved);
+  } catch (error) {
+    return errorResponse(error, 'Error saving account configuration');
+  }
+}
+
+export async function DELETE(_request: Request, { params }: { params: Promise<{ key: string }> }) {
+  try {
+    const { key } = await params;
+    const previous = await getAccountConfig(key);
+    await deleteAccountConfig(key);
+    if (previous?.ynabSchedule) {
+      await removeScheduledPayments(previous).catch((error) => {
+        console.error('Error removing scheduled transactions of a deleted account:', error);
+      });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error, 'Error deleting account configuration');
+  }
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { getAccountConfigs } from '@/lib/config';
+import { errorResponse } from '@/lib/http';
+
+export async function GET() {
+  try {
+    return NextResponse.json(await getAccountConfigs());
+  } catch (error) {
+    return errorResponse(error, 'Error reading account configuration');
+  }
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { listYnabAccounts, resolveBudgetId } from '@/lib/ynab';
+import { errorResponse } from '@/lib/http';
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const budgetId = await resolveBudgetId(searchParams.get('budgetId') || undefined, 'The account list');
+    return NextResponse.json(await listYnabAccounts(budgetId));
+  } catch (error) {
+    return errorResponse(error, 'Error fetching YNAB accounts');
+  }
+}
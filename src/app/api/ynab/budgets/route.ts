@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { listYnabBudgets } from '@/lib/ynab';
+import { errorResponse } from '@/lib/http';
+
+export async function GET() {
+  try {
+    return NextResponse.json(await listYnabBudgets());
+  } catch (error) {
+    return errorResponse(error, 'Error fetching YNAB budgets');
+  }
+}
@@ -1,53 +1,38 @@
 'use client';
 
-import React, { useState, useMemo, useEffect, Suspense } from 'react';
+import React, { useState, useMemo, useEffect, useRef, Suspense } from 'react';
 import { useSearchParams } from 'next/navigation';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { DollarSign, Info, X, Calendar as CalendarIcon, TrendingUp } from 'lucide-react';
+import { DollarSign, Info, X, Calendar as CalendarIcon, TrendingUp, Settings, ArrowLeft, Pencil, Trash2, Download, FileCheck } from 'lucide-react';
+import Link from 'next/link';
 import toast, { Toaster } from 'react-hot-toast';
-import { getAccountConfig, getBudgets, getAccount, getTransactions, milliunitsToCurrency, createTransaction, createTransferTransaction, calculatePaymentDaysRemaining, getDaysUntilDeadline, type PaymentHistoryItem, type DeadlineConfig, type PaymentAccounts } from '../lib/ynab';
+import { BALANCE_RANGES, calculatePaymentDaysRemaining, getDaysUntilDeadline, getDebtStatus, getMissedPaymentDays, getPaymentDaysPerWeek, getPaymentSchedule, findPaymentMethod, getTotalPaidOn, madePaymentOn, validateMethodAmount, validatePaymentAmount, type BalancePoint, type BalanceRange, type PaymentHistoryItem, type DeadlineConfig, type InterestConfig, type PaymentMethodConfig, type PaymentSchedule } from '../lib/debt';
+import { calculateRequiredPayment, projectPayoff } from '../lib/projection';
+import type { AdherenceStats, CalendarMonth } from '../lib/analytics';
+import { calendarFeedUrl, deletePayment, fetchAccount, fetchAdherenceStats, fetchBalanceHistory, fetchCalendarMonth, fetchPaymentHistory, submitPayment, updatePayment, type PaymentRequest, type PaymentUpdate } from '../lib/api';
+import { submitOrQueuePayment, toPendingHistory, usePaymentQueue, type ReplayResult } from '../lib/paymentQueue';
 import dayjs from 'dayjs';
-import Calendar from 'react-calendar';
-import 'react-calendar/dist/Calendar.css';
-
-
-
-interface ModalProps {
-  isOpen: boolean;
-  onClose: () => void;
-  title: string;
-  children: React.ReactNode;
-}
-
-interface CalendarTileProps {
-  date: Date;
-  view: string;
-}
-// --- Componente Modal Genérico ---
-const Modal = ({ isOpen, onClose, title, children }: ModalProps) => {
-  if (!isOpen) return null;
-  return (
-    <div className="fixed inset-0 bg-black bg-opacity-60 z-40 flex justify-center items-center p-4">
-      <div className="bg-gray-800 rounded-2xl shadow-2xl w-full max-w-lg m-4 animate-scale-in">
-        <div className="flex justify-between items-center p-4 border-b border-gray-700">
-          <h3 className="text-xl font-bold text-white">{title}</h3>
-          <button onClick={onClose} className="text-gray-400 hover:text-white">
-            <X size={24} />
-          </button>
-        </div>
-        <div className="p-6">
-          {children}
-        </div>
-      </div>
-    </div>
-  );
-};
+import Modal from '../components/Modal';
+import PaymentMethodButtons, { methodLabel } from '../components/PaymentMethodButtons';
+import DebtOverview from '../components/DebtOverview';
+import AmortizationTable from '../components/AmortizationTable';
+import AdherencePanel from '../components/AdherencePanel';
+import SecondPaymentWarning from '../components/SecondPaymentWarning';
+import EditPaymentModal from '../components/EditPaymentModal';
+import CatchUpModal from '../components/CatchUpModal';
+import PaymentDateInput from '../components/PaymentDateInput';
+import PaymentCalendar from '../components/PaymentCalendar';
+import ExportModal from '../components/ExportModal';
 
 // --- Componente que maneja los search params ---
 const AppWithParams = () => {
   const searchParams = useSearchParams();
-  const accountKey = searchParams.get('account') || 'taxi-soluto';
+  const accountKey = searchParams.get('account');
 
+  // Without ?account= the landing page lists every configured debt
+  if (!accountKey) {
+    return <DebtOverview />;
+  }
   return <DebtTrackerApp accountKey={accountKey} />;
 };
 
@@ -59,15 +44,15 @@ const DebtTrackerApp = ({ accountKey }: { accountKey: string }) => {
   const [accountBalance, setAccountBalance] = useState(0); // This is the total debt from YNAB
   const [presetPaymentAmount, setPresetPaymentAmount] = useState(150.00);
   const [maxDailyPayment, setMaxDailyPayment] = useState(200.00);
-  const [paymentDays, setPaymentDays] = useState<readonly number[]>([1, 2, 3, 4, 5, 6]);
+  const [minDailyPayment, setMinDailyPayment] = useState(0);
+  const [schedule, setSchedule] = useState<PaymentSchedule>({ type: 'weekdays', weekdays: [1, 2, 3, 4, 5, 6] });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [budgetId, setBudgetId] = useState<string>('');
-  const [accountId, setAccountId] = useState<string>('');
   const [deadlineConfig, setDeadlineConfig] = useState<DeadlineConfig | null>(null);
+  const [interest, setInterest] = useState<InterestConfig | null>(null);
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethodConfig[]>([]);
   const [paymentDaysRemaining, setPaymentDaysRemaining] = useState<number>(0);
   const [totalDaysUntilDeadline, setTotalDaysUntilDeadline] = useState<number>(0);
-  const [paymentAccounts, setPaymentAccounts] = useState<PaymentAccounts>({});
 
   const [paymentHistory, setPaymentHistory] = useState<PaymentHistoryItem[]>([]);
 
@@ -78,74 +63,40 @@ const DebtTrackerApp = ({ accountKey }: { accountKey: string }) => {
         setLoading(true);
         setError(null);
 
-        // Get account configuration
-        const accountConfig = getAccountConfig(accountKey);
-        if (!accountConfig) {
-          throw new Error(`Account configuration not found for: ${accountKey}`);
-        }
+        // Fetch account configuration and balance from the server
+        const account = await fetchAccount(accountKey);
 
         // Update state with account configuration
-        setAccountName(accountConfig.name);
-        setPresetPaymentAmount(accountConfig.constants.paymentQuantity);
-        setMaxDailyPayment(accountConfig.constants.maxDailyPayment);
-        setPaymentDays(accountConfig.constants.paymentDays);
-
-        // Fetch YNAB data
-        const budgets = await getBudgets();
-        if (budgets.length === 0) {
-          throw new Error('No budgets found in YNAB account');
-        }
-
-        // Use the first budget (or you could let user select)
-        const budget = budgets[0];
-        setBudgetId(budget.id);
-        setAccountId(accountConfig.accountId);
-
-        const account = await getAccount(budget.id, accountConfig.accountId);
-
-        // The account balance IS the total debt (for debt accounts, balance is negative)
-        const totalDebt = milliunitsToCurrency(Math.abs(account.balance));
-        setAccountBalance(totalDebt);
+        setAccountName(account.name);
+        setPresetPaymentAmount(account.constants.paymentQuantity);
+        setMaxDailyPayment(account.constants.maxDailyPayment);
+        setMinDailyPayment(account.constants.minDailyPayment);
+        setSchedule(getPaymentSchedule(account.constants));
+        setAccountBalance(account.balance);
+        setInterest(account.interest || null);
+        setPaymentMethods(account.paymentMethods);
 
         // Fetch recent transactions for payment history
-        const transactions = await getTransactions(budget.id, accountConfig.accountId);
-
-        // Convert transactions to payment history format
-        const paymentTransactions = transactions
-          .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()) // Sort by date descending (newest first)
-          .slice(0, 20) // Get last 20 transactions
-          .map((t) => ({
-            date: t.date,
-            amount: milliunitsToCurrency(Math.abs(t.amount)),
-            balance: milliunitsToCurrency(Math.abs(t.amount)), // Show transaction amount
-            cleared: t.cleared,
-            memo: t.memo || undefined
-          }));
-
+        const paymentTransactions = await fetchPaymentHistory(accountKey);
         setPaymentHistory(paymentTransactions);
 
         // Set deadline configuration if available
-        if ('deadlineConfig' in accountConfig && accountConfig.deadlineConfig) {
-          setDeadlineConfig(accountConfig.deadlineConfig);
+        if (account.deadlineConfig) {
+          setDeadlineConfig(account.deadlineConfig);
 
           // Calculate payment days remaining
           const daysRemaining = calculatePaymentDaysRemaining(
-            accountConfig.deadlineConfig.endDate,
-            accountConfig.constants.paymentDays.slice(),
+            account.deadlineConfig.endDate,
+            getPaymentSchedule(account.constants),
             paymentTransactions
           );
           setPaymentDaysRemaining(daysRemaining);
 
           // Calculate total days until deadline
-          const totalDays = getDaysUntilDeadline(accountConfig.deadlineConfig.endDate);
+          const totalDays = getDaysUntilDeadline(account.deadlineConfig.endDate);
           setTotalDaysUntilDeadline(totalDays);
         }
 
-        // Set payment accounts configuration
-        if (accountConfig.paymentAccounts) {
-          setPaymentAccounts(accountConfig.paymentAccounts);
-        }
-
       } catch (err) {
         console.error('Error loading account data:', err);
         setError(err instanceof Error ? err.message : 'Failed to load account data');
@@ -163,111 +114,246 @@ const DebtTrackerApp = ({ accountKey }: { accountKey: string }) => {
   const [isBlankPaymentModalOpen, setBlankPaymentModalOpen] = useState(false);
   const [isInfoVisible, setInfoVisible] = useState(false);
   const [blankPaymentReason, setBlankPaymentReason] = useState('');
+  const [paymentAmountInput, setPaymentAmountInput] = useState('');
+  // One nonce per opened payment form, so a double tap or a retry can't create a second transaction
+  const [paymentNonce, setPaymentNonce] = useState('');
+  // Day the payment or blank payment is recorded for, today unless backdated
+  const [paymentDate, setPaymentDate] = useState(dayjs().format('YYYY-MM-DD'));
+  const [submitting, setSubmitting] = useState(false);
+  const [confirmSecondPayment, setConfirmSecondPayment] = useState(false);
+  const [editingPayment, setEditingPayment] = useState<PaymentHistoryItem | null>(null);
+  const [isCatchUpOpen, setCatchUpOpen] = useState(false);
+  const [isExportOpen, setExportOpen] = useState(false);
+  const [deletingPayment, setDeletingPayment] = useState<PaymentHistoryItem | null>(null);
+  // Only the last edit or delete can be undone
+  const undoToastId = useRef<string | null>(null);
+  const [balanceRange, setBalanceRange] = useState<BalanceRange>('30d');
+  const [balanceHistory, setBalanceHistory] = useState<BalancePoint[]>([]);
+  const [fullBalanceHistory, setFullBalanceHistory] = useState<BalancePoint[]>([]);
+  const [adherenceStats, setAdherenceStats] = useState<AdherenceStats | null>(null);
+  // Month shown in the payment calendar, YYYY-MM
+  const [calendarMonthKey, setCalendarMonthKey] = useState(dayjs().format('YYYY-MM'));
+  const [calendarMonth, setCalendarMonth] = useState<CalendarMonth | null>(null);
+
+  // Payments registered offline count as made, and are listed until YNAB has them
+  const queuedPayments = usePaymentQueue(accountKey, (result) => handleQueueReplayed(result));
+  const pendingHistory = useMemo(() => toPendingHistory(queuedPayments, accountBalance), [queuedPayments, accountBalance]);
+  const displayedHistory = useMemo(() => [...pendingHistory, ...paymentHistory], [pendingHistory, paymentHistory]);
+
+  // --- Lógica y Cálculos ---
+  const debtStatus = useMemo(() => {
+    return getDebtStatus(schedule, displayedHistory);
+  }, [displayedHistory, schedule]);
 
-  // Function to get payment dates for calendar highlighting
-  const getPaymentDates = () => {
-    return paymentHistory
-      .filter(payment => payment.amount >= 0) // Include both regular payments and blank payments
-      .map(payment => payment.date);
+  // Function to refresh transactions from YNAB
+  const refreshTransactions = async () => {
+    try {
+      const paymentTransactions = await fetchPaymentHistory(accountKey);
+      setPaymentHistory(paymentTransactions);
+
+      // Recalculate payment days remaining if deadline config exists
+      if (deadlineConfig && deadlineConfig.enabled) {
+        const daysRemaining = calculatePaymentDaysRemaining(
+          deadlineConfig.endDate,
+          schedule,
+          paymentTransactions
+        );
+        setPaymentDaysRemaining(daysRemaining);
+      }
+    } catch (error) {
+      console.error('Error refreshing transactions:', error);
+    }
   };
 
-  // Function to check if a date has a payment
-  const hasPaymentOnDate = (date: Date) => {
-    const dateString = dayjs(date).format('YYYY-MM-DD');
-    return getPaymentDates().includes(dateString);
+  // Queued payments reached YNAB (or were rejected by it) in the background
+  const handleQueueReplayed = async (result: ReplayResult) => {
+    const synced = result.synced.filter((item) => item.accountKey === accountKey);
+    const rejected = result.rejected.filter(({ item }) => item.accountKey === accountKey);
+    if (synced.length === 0 && rejected.length === 0) return;
+
+    if (synced.length > 0) {
+      toast.success(`${synced.length} pago(s) pendiente(s) sincronizado(s) con YNAB.`);
+    }
+    for (const { item, error } of rejected) {
+      toast.error(`YNAB rechazó el pago pendiente del ${dayjs(item.payment.date).format('DD/MM/YYYY')}: ${error}`);
+    }
+    await refreshAccount();
   };
 
-  // --- Lógica y Cálculos ---
-  const debtStatus = useMemo(() => {
-    const today = dayjs();
-    const dayOfWeek = today.day(); // 0 = Sunday, 1 = Monday, etc.
-    const todayString = today.format('YYYY-MM-DD');
-
-    // Check if today is a payment day
-    const isPaymentDay = (paymentDays as number[]).includes(dayOfWeek);
-
-    // Check if user made a payment today
-    const madePaymentToday = paymentHistory.some(payment => payment.date === todayString && payment.amount >= 0);
-
-    if (isPaymentDay && madePaymentToday) {
-      return { text: "¡Pago realizado hoy!", color: "text-green-400" };
-    } else if (isPaymentDay && !madePaymentToday) {
-      return { text: "Pago pendiente hoy", color: "text-red-400" };
-    } else if (!isPaymentDay) {
-      return { text: "No es día de pago", color: "text-blue-400" };
-    } else {
-      return { text: "Al día", color: "text-green-400" };
+  // Balance and history after a change made outside the payment forms
+  const refreshAccount = async () => {
+    try {
+      const account = await fetchAccount(accountKey);
+      setAccountBalance(account.balance);
+    } catch (error) {
+      console.error('Error refreshing account balance:', error);
     }
-  }, [paymentHistory, paymentDays]);
+    await refreshTransactions();
+  };
+
+  const showUndoToast = (message: string, undo: () => Promise<unknown>) => {
+    if (undoToastId.current) toast.dismiss(undoToastId.current);
+    undoToastId.current = toast((t) => (
+      <span className="flex items-center space-x-3">
+        <span>{message}</span>
+        <button
+          onClick={async () => {
+            toast.dismiss(t.id);
+            undoToastId.current = null;
+            try {
+              await undo();
+              toast.success('Cambio deshecho.');
+            } catch (error) {
+              console.error('Error undoing change:', error);
+              toast.error(error instanceof Error ? error.message : 'No se pudo deshacer el cambio.');
+            }
+            await refreshAccount();
+          }}
+          className="font-bold underline"
+        >
+          Deshacer
+        </button>
+      </span>
+    ), { duration: 8000 });
+  };
+
+  // Days are registered oldest first, so the queue and the daily bounds see them in order
+  const handleCatchUp = async (payments: PaymentRequest[]) => {
+    let registered = 0;
+    let queued = 0;
+    for (const payment of payments) {
+      try {
+        const outcome = await submitOrQueuePayment(accountKey, payment);
+        if (outcome === 'queued') queued++;
+        else registered++;
+      } catch (error) {
+        console.error('Error registering catch-up payment:', error);
+        const message = error instanceof Error ? error.message : 'Error desconocido';
+        toast.error(`No se pudo registrar el ${dayjs(payment.date).format('DD/MM/YYYY')}: ${message}`);
+      }
+    }
+
+    setCatchUpOpen(false);
+    if (registered > 0) toast.success(`${registered} día(s) registrado(s) en YNAB.`);
+    if (queued > 0) toast(`Sin conexión con YNAB: ${queued} día(s) quedaron pendientes y se sincronizarán automáticamente.`);
+    await refreshAccount();
+  };
+
+  const handleSavePaymentEdit = async (update: PaymentUpdate) => {
+    const payment = editingPayment;
+    if (!payment?.id) return;
+    const transactionId = payment.id;
 
-  // Function to refresh transactions from YNAB
-  const refreshTransactions = async () => {
     try {
-      if (budgetId && accountId) {
-        const transactions = await getTransactions(budgetId, accountId);
-        const paymentTransactions = transactions
-          .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()) // Sort by date descending (newest first)
-          .slice(0, 20) // Get last 20 transactions
-          .map((t) => ({
-            date: t.date,
-            amount: milliunitsToCurrency(Math.abs(t.amount)),
-            balance: milliunitsToCurrency(Math.abs(t.amount)),
-            cleared: t.cleared,
-            memo: t.memo || undefined
-          }));
-        setPaymentHistory(paymentTransactions);
+      await updatePayment(accountKey, transactionId, update);
+      setEditingPayment(null);
+
+      // Undo puts back the previous value of every field that was changed
+      const previous: PaymentUpdate = {};
+      if (update.amount !== undefined) previous.amount = payment.amount;
+      if (update.date !== undefined) previous.date = payment.date;
+      if (update.memo !== undefined) previous.memo = payment.memo ?? '';
+      if (update.method !== undefined) previous.method = payment.method;
+      // A method that was not recognised, or is no longer configured, can't be put back from here
+      const canUndo = update.method === undefined
+        || (payment.method !== undefined && findPaymentMethod(paymentMethods, payment.method) !== undefined);
+      if (canUndo) {
+        showUndoToast('Pago actualizado en YNAB.', () => updatePayment(accountKey, transactionId, previous));
+      } else {
+        toast.success('Pago actualizado en YNAB.');
+      }
 
-        // Recalculate payment days remaining if deadline config exists
-        if (deadlineConfig && deadlineConfig.enabled) {
-          const daysRemaining = calculatePaymentDaysRemaining(
-            deadlineConfig.endDate,
-            paymentDays,
-            paymentTransactions
-          );
-          setPaymentDaysRemaining(daysRemaining);
-        }
+      await refreshAccount();
+    } catch (error) {
+      console.error('Error updating payment:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al actualizar el pago en YNAB.');
+    }
+  };
+
+  const handleDeletePayment = async () => {
+    const payment = deletingPayment;
+    if (!payment?.id) return;
+
+    try {
+      setSubmitting(true);
+      await deletePayment(accountKey, payment.id);
+      setDeletingPayment(null);
+
+      // Undo registers the payment again. The deleted payment keeps its import_id in YNAB, so the
+      // restored one gets a nonce of its own, fixed per deleted payment so a repeated undo (and its
+      // fee) is never registered twice; the old fee was deleted with the payment.
+      const restoreNonce = `restore:${payment.id}`;
+      if (payment.amount === 0) {
+        showUndoToast('Pago en blanco eliminado.', () => submitPayment(accountKey, {
+          kind: 'blank', reason: payment.memo || 'Pago en blanco restaurado', date: payment.date, nonce: restoreNonce,
+        }));
+      } else if (payment.method) {
+        const method = payment.method;
+        showUndoToast('Pago eliminado.', () => submitPayment(accountKey, {
+          kind: 'payment', method, amount: payment.amount, date: payment.date, memo: payment.memo, nonce: restoreNonce,
+        }));
+      } else {
+        toast.success('Pago eliminado.');
       }
+
+      await refreshAccount();
     } catch (error) {
-      console.error('Error refreshing transactions:', error);
+      console.error('Error deleting payment:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al eliminar el pago en YNAB.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Calendar apps subscribe to the feed by its full URL
+  const copyCalendarFeed = async () => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${calendarFeedUrl(accountKey)}`);
+      toast.success('Enlace copiado. Agrégalo en tu calendario como suscripción por URL.');
+    } catch (error) {
+      console.error('Error copying calendar feed URL:', error);
+      toast.error('No se pudo copiar el enlace.');
     }
   };
 
   const handleRegisterPayment = async (method: string) => {
+    // Reject before anything is sent to YNAB
+    const paymentMethod = findPaymentMethod(paymentMethods, method);
+    const rejection = paymentAmountError ?? (paymentMethod ? validateMethodAmount(paymentAmount, paymentMethod) : null);
+    if (rejection) {
+      toast.error(rejection);
+      return;
+    }
+
     try {
-      // Check if we have a specific account for this payment method
-      const paymentAccountId = paymentAccounts[method];
-
-      if (paymentAccountId) {
-        // Create transfer transaction from debt account to payment account
-        await createTransferTransaction(
-          budgetId,
-          accountId,
-          paymentAccountId,
-          presetPaymentAmount,
-          `Pago de deuda vía ${method}`
-        );
-      } else {
-        // Fallback to regular transaction if no specific account configured
-        await createTransaction(
-          budgetId,
-          accountId,
-          presetPaymentAmount,
-          `Pago ${method}`,
-          `Pago registrado vía ${method}`
-        );
+      setSubmitting(true);
+      // The server picks a transfer or a plain transaction based on the method
+      const outcome = await submitOrQueuePayment(accountKey, { kind: 'payment', method, amount: paymentAmount, date: paymentDate, nonce: paymentNonce });
+      if (outcome === 'queued') {
+        setPaymentModalOpen(false);
+        toast(`Sin conexión con YNAB: el pago de $${paymentAmount.toFixed(2)} quedó pendiente y se sincronizará automáticamente.`);
+        return;
+      }
+      if (outcome === 'duplicate') {
+        setPaymentModalOpen(false);
+        toast.error('Este pago ya estaba registrado en YNAB.');
+        await refreshTransactions();
+        return;
       }
 
-      const newBalance = accountBalance - presetPaymentAmount;
+      const newBalance = accountBalance - paymentAmount;
       setAccountBalance(newBalance);
 
       setPaymentModalOpen(false);
-      toast.success(`Pago de $${presetPaymentAmount.toFixed(2)} registrado con ${method} en YNAB.`);
+      toast.success(`Pago de $${paymentAmount.toFixed(2)} registrado con ${paymentMethod ? methodLabel(paymentMethod) : method} en YNAB.`);
 
       // Refresh transactions from YNAB to get the latest data
       await refreshTransactions();
     } catch (error) {
       console.error('Error creating payment:', error);
-      toast.error('Error al registrar el pago en YNAB. Inténtalo de nuevo.');
+      toast.error(error instanceof Error ? error.message : 'Error al registrar el pago en YNAB. Inténtalo de nuevo.');
+    } finally {
+      setSubmitting(false);
     }
   };
 
@@ -278,44 +364,171 @@ const DebtTrackerApp = ({ accountKey }: { accountKey: string }) => {
     }
 
     try {
+      setSubmitting(true);
       // Create $0 transaction in YNAB
-      await createTransaction(
-        budgetId,
-        accountId,
-        0,
-        'No hare un pago hoy',
-        blankPaymentReason
-      );
+      const outcome = await submitOrQueuePayment(accountKey, { kind: 'blank', reason: blankPaymentReason, date: paymentDate, nonce: paymentNonce });
 
       setBlankPaymentModalOpen(false);
       setBlankPaymentReason('');
+      if (outcome === 'queued') {
+        toast('Sin conexión con YNAB: el pago en blanco quedó pendiente y se sincronizará automáticamente.');
+        return;
+      }
+      if (outcome === 'duplicate') {
+        toast.error('Este pago en blanco ya estaba registrado en YNAB.');
+        await refreshTransactions();
+        return;
+      }
       toast.success('Pago en blanco registrado en YNAB.');
 
       // Refresh transactions from YNAB to get the latest data
       await refreshTransactions();
     } catch (error) {
       console.error('Error creating blank payment:', error);
-      toast.error('Error al registrar el pago en blanco en YNAB.');
+      toast.error(error instanceof Error ? error.message : 'Error al registrar el pago en blanco en YNAB.');
+    } finally {
+      setSubmitting(false);
     }
   };
 
+  // Load the balance chart when the details are opened or the range changes
+  useEffect(() => {
+    if (!isDetailsModalOpen) return;
+
+    const loadBalanceHistory = async () => {
+      try {
+        setBalanceHistory(await fetchBalanceHistory(accountKey, balanceRange));
+      } catch (error) {
+        console.error('Error loading balance history:', error);
+        toast.error('Error al cargar el historial de saldo.');
+      }
+    };
+
+    loadBalanceHistory();
+  }, [accountKey, balanceRange, isDetailsModalOpen, paymentHistory]);
+
+  // The amortization table compares the whole loan against the real balance
+  useEffect(() => {
+    if (!isDetailsModalOpen || !interest) return;
+
+    const loadFullBalanceHistory = async () => {
+      try {
+        setFullBalanceHistory(await fetchBalanceHistory(accountKey, 'all'));
+      } catch (error) {
+        console.error('Error loading full balance history:', error);
+      }
+    };
+
+    loadFullBalanceHistory();
+  }, [accountKey, interest, isDetailsModalOpen, paymentHistory]);
+
+  // Streaks and totals need the whole history, so they are computed on the server
+  useEffect(() => {
+    if (!isDetailsModalOpen) return;
+
+    const loadAdherenceStats = async () => {
+      try {
+        setAdherenceStats(await fetchAdherenceStats(accountKey));
+      } catch (error) {
+        console.error('Error loading payment analytics:', error);
+      }
+    };
+
+    loadAdherenceStats();
+  }, [accountKey, isDetailsModalOpen, paymentHistory]);
+
+  // The recent history only covers a few weeks, so each calendar month is loaded on its own
+  useEffect(() => {
+    if (!isDetailsModalOpen) return;
+
+    const loadCalendarMonth = async () => {
+      try {
+        setCalendarMonth(await fetchCalendarMonth(accountKey, calendarMonthKey));
+      } catch (error) {
+        console.error('Error loading payment calendar:', error);
+        toast.error('No se pudo cargar el calendario de ese mes.');
+      }
+    };
+
+    loadCalendarMonth();
+  }, [accountKey, calendarMonthKey, isDetailsModalOpen, paymentHistory]);
+
   const formattedData = useMemo(() => {
-    return paymentHistory.map(p => ({
+    const dateFormat: Intl.DateTimeFormatOptions = balanceRange === '30d'
+      ? { month: 'short', day: 'numeric' }
+      : { month: 'short', day: 'numeric', year: '2-digit' };
+    return balanceHistory.map(p => ({
       ...p,
-      fecha: new Date(p.date).toLocaleDateString('es-PA', { month: 'short', day: 'numeric' }),
+      fecha: dayjs(p.date).toDate().toLocaleDateString('es-PA', dateFormat),
       saldo: p.balance,
     }));
-  }, [paymentHistory]);
-
-  const estimatedFinishDate = useMemo(() => {
-    if (presetPaymentAmount <= 0) return "N/A";
-    const paymentsLeft = Math.ceil(accountBalance / presetPaymentAmount);
-    const today = new Date();
-    // Asumimos pagos quincenales
-    const daysToFinish = paymentsLeft * 15;
-    const finishDate = new Date(new Date().setDate(today.getDate() + daysToFinish));
-    return finishDate.toLocaleDateString('es-PA', { year: 'numeric', month: 'long', day: 'numeric' });
-  }, [accountBalance, presetPaymentAmount]);
+  }, [balanceHistory, balanceRange]);
+
+  // Walk the real payment calendar instead of assuming a fixed interval between payments
+  const projection = useMemo(() => {
+    return projectPayoff({
+      balance: accountBalance,
+      paymentQuantity: presetPaymentAmount,
+      schedule,
+      paidToday: madePaymentOn(displayedHistory, dayjs().format('YYYY-MM-DD')),
+      deadlineConfig,
+      interest,
+    });
+  }, [accountBalance, presetPaymentAmount, schedule, displayedHistory, deadlineConfig, interest]);
+
+  // Amount per payment day needed to finish by the deadline, within the min/max bounds
+  const requiredPayment = useMemo(() => {
+    if (!deadlineConfig || !deadlineConfig.enabled) return null;
+    return calculateRequiredPayment({
+      balance: accountBalance,
+      paymentDaysRemaining,
+      minDailyPayment,
+      maxDailyPayment,
+    });
+  }, [accountBalance, paymentDaysRemaining, minDailyPayment, maxDailyPayment, deadlineConfig]);
+
+  // Editable amount, validated against the min/max and what was already paid on the chosen day
+  const paymentAmount = Number(paymentAmountInput);
+  const isBackdated = paymentDate !== dayjs().format('YYYY-MM-DD');
+  const paidOnPaymentDate = useMemo(() => {
+    return getTotalPaidOn(displayedHistory, paymentDate);
+  }, [displayedHistory, paymentDate]);
+  const paymentDateError = !paymentDate || paymentDate > dayjs().format('YYYY-MM-DD')
+    ? 'La fecha no puede estar en el futuro.'
+    : null;
+  const paymentAmountError = paymentDateError ?? validatePaymentAmount(
+    paymentAmount,
+    { minDailyPayment, maxDailyPayment },
+    paidOnPaymentDate
+  );
+
+  // A blank payment also counts as that day's entry
+  const alreadyPaidOnPaymentDate = madePaymentOn(displayedHistory, paymentDate);
+  const needsSecondPaymentConfirmation = alreadyPaidOnPaymentDate && !confirmSecondPayment;
+
+  // Payment days since the last entry with nothing recorded
+  const missedPaymentDays = useMemo(() => {
+    return getMissedPaymentDays(schedule, displayedHistory);
+  }, [schedule, displayedHistory]);
+
+  const openPaymentModal = () => {
+    setPaymentAmountInput(presetPaymentAmount.toFixed(2));
+    setPaymentDate(dayjs().format('YYYY-MM-DD'));
+    setPaymentNonce(crypto.randomUUID());
+    setConfirmSecondPayment(false);
+    setPaymentModalOpen(true);
+  };
+
+  const openBlankPaymentModal = () => {
+    setPaymentDate(dayjs().format('YYYY-MM-DD'));
+    setPaymentNonce(crypto.randomUUID());
+    setConfirmSecondPayment(false);
+    setBlankPaymentModalOpen(true);
+  };
+
+  const estimatedFinishDate = projection
+    ? dayjs(projection.payoffDate).toDate().toLocaleDateString('es-PA', { year: 'numeric', month: 'long', day: 'numeric' })
+    : 'N/A';
 
   // --- Renderizado de la UI ---
   if (loading) {
@@ -336,12 +549,17 @@ const DebtTrackerApp = ({ accountKey }: { accountKey: string }) => {
           <div className="text-red-400 text-6xl mb-4">⚠️</div>
           <h2 className="text-2xl font-bold text-red-400 mb-4">Error Loading Data</h2>
           <p className="text-gray-300 mb-6">{error}</p>
-          <button
-            onClick={() => window.location.reload()}
-            className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
-          >
-            Retry
-          </button>
+          <div className="flex justify-center space-x-4">
+            <button
+              onClick={() => window.location.reload()}
+              className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
+            >
+              Retry
+            </button>
+            <Link href="/settings" className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded">
+              Configuración
+            </Link>
+          </div>
         </div>
       </div>
     );
@@ -362,7 +580,19 @@ const DebtTrackerApp = ({ accountKey }: { accountKey: string }) => {
       
       <div className="w-full max-w-md mx-auto bg-gray-800 rounded-3xl shadow-xl p-6 md:p-8 space-y-8">
         {/* --- Header --- */}
-        <header className="text-center">
+        <header className="text-center relative">
+          <Link href="/" className="absolute top-0 left-0 p-1 text-gray-500 hover:text-white" title="Todas las deudas">
+            <ArrowLeft size={20} />
+          </Link>
+          <Link href={`/reconcile?account=${encodeURIComponent(accountKey)}`} className="absolute top-0 left-8 p-1 text-gray-500 hover:text-white" title="Conciliar estado de cuenta">
+            <FileCheck size={20} />
+          </Link>
+          <button onClick={() => setExportOpen(true)} className="absolute top-0 right-8 p-1 text-gray-500 hover:text-white" title="Exportar">
+            <Download size={20} />
+          </button>
+          <Link href="/settings" className="absolute top-0 right-0 p-1 text-gray-500 hover:text-white" title="Configuración">
+            <Settings size={20} />
+          </Link>
           <h1 className="text-2xl font-bold text-gray-200">{accountName}</h1>
           <p className="text-gray-400">Resumen de tu deuda</p>
         </header>
@@ -415,19 +645,27 @@ const DebtTrackerApp = ({ accountKey }: { accountKey: string }) => {
           <div className={`text-lg font-semibold ${debtStatus.color}`}>
             {debtStatus.text}
           </div>
+          {missedPaymentDays.length > 0 && (
+            <button
+              onClick={() => setCatchUpOpen(true)}
+              className="text-sm text-orange-300 hover:text-orange-200 underline"
+            >
+              {missedPaymentDays.length} día(s) de pago sin registrar · Ponerse al día
+            </button>
+          )}
         </main>
 
         {/* --- Action Buttons --- */}
         <footer className="grid grid-cols-1 md:grid-cols-3 gap-4">
           <button
-            onClick={() => setPaymentModalOpen(true)}
+            onClick={openPaymentModal}
             className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 px-4 rounded-xl transition-transform transform hover:scale-105 shadow-lg flex items-center justify-center space-x-2"
           >
             <DollarSign size={20}/>
             <span>Registrar Pago</span>
           </button>
           <button
-            onClick={() => setBlankPaymentModalOpen(true)}
+            onClick={openBlankPaymentModal}
             className="w-full bg-orange-600 hover:bg-orange-700 text-white font-bold py-3 px-4 rounded-xl transition-transform transform hover:scale-105 shadow-lg flex items-center justify-center space-x-2"
           >
             <X size={20}/>
@@ -447,22 +685,24 @@ const DebtTrackerApp = ({ accountKey }: { accountKey: string }) => {
       <div className="w-full max-w-md mx-auto bg-gray-800 rounded-3xl shadow-xl p-6 md:p-8 mt-6">
         <h2 className="text-xl font-bold text-gray-200 mb-4 text-center">Historial de Transacciones</h2>
         <div className="space-y-3 max-h-96 overflow-y-auto">
-          {paymentHistory.length === 0 ? (
+          {displayedHistory.length === 0 ? (
             <p className="text-gray-400 text-center py-4">No hay transacciones registradas</p>
           ) : (
-            paymentHistory.map((payment, index) => (
+            displayedHistory.map((payment, index) => (
               <div key={index} className="bg-gray-700 rounded-lg p-4 flex justify-between items-center">
                 <div className="flex-1">
                   <div className="flex items-center space-x-2">
                     <span className="text-white font-medium">
-                      {payment.amount === 0 ? 'Pago en Blanco' : `$${payment.amount.toFixed(2)}`}
+                      {payment.charge ? `Cargo $${payment.amount.toFixed(2)}` : payment.amount === 0 ? 'Pago en Blanco' : `$${payment.amount.toFixed(2)}`}
                     </span>
                     <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                      payment.cleared === 'cleared'
-                        ? 'bg-green-600 text-green-100'
-                        : 'bg-yellow-600 text-yellow-100'
+                      payment.pending
+                        ? 'bg-gray-600 text-gray-100'
+                        : payment.cleared === 'cleared'
+                          ? 'bg-green-600 text-green-100'
+                          : 'bg-yellow-600 text-yellow-100'
                     }`}>
-                      {payment.cleared === 'cleared' ? 'Confirmado' : 'No Confirmado'}
+                      {payment.pending ? 'Pendiente de sincronizar' : payment.cleared === 'cleared' ? 'Confirmado' : 'No Confirmado'}
                     </span>
                   </div>
                   <div className="text-sm text-gray-400 mt-1">
@@ -477,6 +717,16 @@ const DebtTrackerApp = ({ accountKey }: { accountKey: string }) => {
                   <div className="text-white font-medium">
                     ${payment.amount.toFixed(2)}
                   </div>
+                  {payment.id && !payment.pending && !payment.charge && (
+                    <div className="flex justify-end space-x-1 mt-1">
+                      <button onClick={() => setEditingPayment(payment)} className="p-1 text-gray-400 hover:text-white" title="Editar">
+                        <Pencil size={16} />
+                      </button>
+                      <button onClick={() => setDeletingPayment(payment)} className="p-1 text-gray-400 hover:text-red-400" title="Eliminar">
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  )}
                 </div>
               </div>
             ))
@@ -487,25 +737,106 @@ const DebtTrackerApp = ({ accountKey }: { accountKey: string }) => {
       {/* --- Modals --- */}
       <Modal isOpen={isPaymentModalOpen} onClose={() => setPaymentModalOpen(false)} title="Registrar un Nuevo Pago">
         <div className="space-y-6 text-white">
-          <p className="text-gray-300">El monto del pago está preestablecido. Por favor, selecciona tu método de pago.</p>
+          <p className="text-gray-300">Confirma el monto y selecciona tu método de pago.</p>
+          <PaymentDateInput id="payment-date" value={paymentDate} onChange={setPaymentDate} />
           <div className="bg-gray-700 p-4 rounded-lg text-center">
-            <label className="text-sm text-gray-400 block">Monto a Pagar</label>
-            <div className="text-4xl font-bold text-blue-400">
-              ${presetPaymentAmount.toFixed(2)}
+            <label htmlFor="payment-amount" className="text-sm text-gray-400 block">Monto a Pagar</label>
+            <div className="flex items-center justify-center text-4xl font-bold text-blue-400">
+              <span>$</span>
+              <input
+                id="payment-amount"
+                type="number"
+                inputMode="decimal"
+                min="0"
+                step="0.01"
+                value={paymentAmountInput}
+                onChange={(e) => setPaymentAmountInput(e.target.value)}
+                className="w-40 bg-transparent text-center focus:outline-none"
+              />
+            </div>
+            <div className="text-xs text-gray-400 mt-1">
+              Mínimo ${minDailyPayment.toFixed(2)} · Máximo ${maxDailyPayment.toFixed(2)} por día
+              {paidOnPaymentDate > 0 && ` · ${isBackdated ? 'Ese día' : 'Hoy'} ya pagaste $${paidOnPaymentDate.toFixed(2)}`}
             </div>
+            {paymentAmountError && (
+              <p className="text-sm text-red-400 mt-2">{paymentAmountError}</p>
+            )}
           </div>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <button 
-              onClick={() => handleRegisterPayment('Yappy')}
-              className="w-full bg-purple-600 hover:bg-purple-700 text-white font-bold py-3 px-4 rounded-lg transition-transform transform hover:scale-105"
+          {requiredPayment && (
+            <div className="space-y-2">
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={() => setPaymentAmountInput(presetPaymentAmount.toFixed(2))}
+                  className={`p-3 rounded-lg text-left ${paymentAmount === presetPaymentAmount ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+                >
+                  <span className="text-xs text-gray-300 block">Monto fijo</span>
+                  <span className="font-bold">${presetPaymentAmount.toFixed(2)}</span>
+                </button>
+                <button
+                  onClick={() => setPaymentAmountInput(requiredPayment.recommendedAmount.toFixed(2))}
+                  className={`p-3 rounded-lg text-left ${paymentAmount === requiredPayment.recommendedAmount ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+                >
+                  <span className="text-xs text-gray-300 block">Para la fecha límite</span>
+                  <span className="font-bold">${requiredPayment.recommendedAmount.toFixed(2)}</span>
+                </button>
+              </div>
+              <p className="text-xs text-gray-400">
+                Necesitas ${requiredPayment.requiredAmount.toFixed(2)} en cada uno de los {paymentDaysRemaining} días de pago restantes.
+              </p>
+              {!requiredPayment.achievable && (
+                <p className="text-xs text-red-400">
+                  Aun pagando el máximo de ${maxDailyPayment.toFixed(2)} por día quedarían ${requiredPayment.shortfall.toFixed(2)} pendientes en la fecha límite.
+                </p>
+              )}
+            </div>
+          )}
+          {alreadyPaidOnPaymentDate && (
+            <SecondPaymentWarning confirmed={confirmSecondPayment} onConfirmedChange={setConfirmSecondPayment} date={paymentDate} />
+          )}
+          <PaymentMethodButtons
+            methods={paymentMethods}
+            amount={paymentAmount}
+            onSelect={handleRegisterPayment}
+            disabled={paymentAmountError !== null || submitting || needsSecondPaymentConfirmation}
+          />
+        </div>
+      </Modal>
+
+      {isCatchUpOpen && (
+        <CatchUpModal
+          missedDays={missedPaymentDays}
+          constants={{ paymentQuantity: presetPaymentAmount, minDailyPayment, maxDailyPayment }}
+          methods={paymentMethods}
+          onClose={() => setCatchUpOpen(false)}
+          onSubmit={handleCatchUp}
+        />
+      )}
+
+      {/* --- Edit / Delete Payment Modals --- */}
+      <EditPaymentModal payment={editingPayment} methods={paymentMethods} onClose={() => setEditingPayment(null)} onSave={handleSavePaymentEdit} />
+
+      <Modal isOpen={deletingPayment !== null} onClose={() => setDeletingPayment(null)} title="Eliminar Pago">
+        <div className="space-y-6 text-white">
+          <p className="text-gray-300">
+            ¿Eliminar {deletingPayment?.amount === 0 ? 'el pago en blanco' : `el pago de $${deletingPayment?.amount.toFixed(2)}`} del{' '}
+            {deletingPayment && dayjs(deletingPayment.date).format('DD/MM/YYYY')}?
+          </p>
+          <p className="text-sm text-gray-400">
+            Se borra de YNAB. Si fue una transferencia, también se borra su contraparte en la cuenta de pago.
+          </p>
+          <div className="flex space-x-4">
+            <button
+              onClick={() => setDeletingPayment(null)}
+              className="flex-1 bg-gray-600 hover:bg-gray-700 text-white font-bold py-3 px-4 rounded-xl transition-colors"
             >
-              Yappy
+              Cancelar
             </button>
-            <button 
-              onClick={() => handleRegisterPayment('Efectivo')}
-              className="w-full bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-4 rounded-lg transition-transform transform hover:scale-105"
+            <button
+              onClick={handleDeletePayment}
+              disabled={submitting}
+              className="flex-1 bg-red-600 hover:bg-red-700 disabled:bg-gray-500 text-white font-bold py-3 px-4 rounded-xl transition-colors"
             >
-              Efectivo
+              Eliminar
             </button>
           </div>
         </div>
@@ -514,7 +845,8 @@ const DebtTrackerApp = ({ accountKey }: { accountKey: string }) => {
       {/* --- Blank Payment Modal --- */}
       <Modal isOpen={isBlankPaymentModalOpen} onClose={() => {setBlankPaymentModalOpen(false); setBlankPaymentReason('');}} title="Registrar Pago en Blanco">
         <div className="space-y-6 text-white">
-          <p className="text-gray-300">Explica por qué no pudiste realizar el pago hoy:</p>
+          <PaymentDateInput id="blank-payment-date" value={paymentDate} onChange={setPaymentDate} />
+          <p className="text-gray-300">Explica por qué no pudiste realizar el pago {isBackdated ? 'ese día' : 'hoy'}:</p>
           <div className="space-y-4">
             <textarea
               value={blankPaymentReason}
@@ -528,6 +860,9 @@ const DebtTrackerApp = ({ accountKey }: { accountKey: string }) => {
               {blankPaymentReason.length}/200 caracteres
             </div>
           </div>
+          {alreadyPaidOnPaymentDate && (
+            <SecondPaymentWarning confirmed={confirmSecondPayment} onConfirmedChange={setConfirmSecondPayment} date={paymentDate} />
+          )}
           <div className="flex space-x-4">
             <button
               onClick={() => {setBlankPaymentModalOpen(false); setBlankPaymentReason('');}}
@@ -537,7 +872,7 @@ const DebtTrackerApp = ({ accountKey }: { accountKey: string }) => {
             </button>
             <button
               onClick={handleRegisterBlankPayment}
-              disabled={!blankPaymentReason.trim()}
+              disabled={!blankPaymentReason.trim() || paymentDateError !== null || submitting || needsSecondPaymentConfirmation}
               className="flex-1 bg-orange-600 hover:bg-orange-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-xl transition-colors"
             >
               Registrar Pago en Blanco
@@ -546,75 +881,87 @@ const DebtTrackerApp = ({ accountKey }: { accountKey: string }) => {
         </div>
       </Modal>
 
+      <ExportModal accountKey={accountKey} isOpen={isExportOpen} onClose={() => setExportOpen(false)} />
+
       <Modal isOpen={isDetailsModalOpen} onClose={() => setDetailsModalOpen(false)} title="Detalles y Proyección">
         <div className="space-y-8 text-white">
-          {deadlineConfig && deadlineConfig.enabled ? (
-            // Calendar view for deadline mode
-            <div className="bg-gray-700 p-4 rounded-lg">
-              <h4 className="text-lg font-semibold text-gray-200 mb-4 flex items-center justify-center space-x-2">
-                <CalendarIcon size={20} className="text-green-400"/>
-                <span>Calendario de Pagos - {dayjs().format('MMMM YYYY')}</span>
-              </h4>
-              <div className="calendar-container">
-                <Calendar
-                  value={new Date()}
-                  tileClassName={({ date, view }: CalendarTileProps) => {
-                    if (view === 'month' && hasPaymentOnDate(date)) {
-                      return 'payment-day';
-                    }
-                    return null;
-                  }}
-                  tileContent={({ date, view }: CalendarTileProps) => {
-                    if (view === 'month' && hasPaymentOnDate(date)) {
-                      return <div className="payment-indicator">✓</div>;
-                    }
-                    return null;
-                  }}
-                />
-              </div>
-              <div className="mt-4 text-sm text-gray-300">
-                <div className="flex items-center space-x-4">
-                  <div className="flex items-center space-x-2">
-                    <div className="w-4 h-4 bg-green-500 rounded"></div>
-                    <span>Días con pago realizado</span>
-                  </div>
-                </div>
-                <div className="mt-2 text-xs text-gray-400">
-                  Fecha límite: {dayjs(deadlineConfig.endDate).format('DD/MM/YYYY')}
-                </div>
-              </div>
-            </div>
-          ) : (
-            // Original view for non-deadline mode
-            <>
-              <div className="bg-gray-700 p-4 rounded-lg text-center">
-                <h4 className="text-lg font-semibold text-gray-200 flex items-center justify-center space-x-2">
-                  <CalendarIcon size={20} className="text-blue-400"/>
-                  <span>Fecha Estimada de Finalización</span>
-                </h4>
-                <p className="text-2xl font-bold text-blue-400">{estimatedFinishDate}</p>
-              </div>
+          <PaymentCalendar
+            month={calendarMonthKey}
+            onMonthChange={setCalendarMonthKey}
+            calendarMonth={calendarMonth}
+            pendingEntries={pendingHistory}
+            schedule={schedule}
+            deadlineConfig={deadlineConfig}
+          />
+          <button onClick={copyCalendarFeed} className="w-full text-sm text-blue-400 hover:text-blue-300 flex items-center justify-center space-x-2">
+            <CalendarIcon size={16} />
+            <span>Copiar enlace para tu calendario (.ics)</span>
+          </button>
 
-              <div>
-                <h4 className="text-lg font-semibold text-gray-200 mb-4 text-center">Historial de Saldo</h4>
-                <div style={{ width: '100%', height: 300 }}>
-                  <ResponsiveContainer>
-                    <LineChart data={formattedData} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
-                      <CartesianGrid strokeDasharray="3 3" stroke="#4A5568" />
-                      <XAxis dataKey="fecha" stroke="#A0AEC0" tick={{ fill: '#A0AEC0' }} />
-                      <YAxis stroke="#A0AEC0" tick={{ fill: '#A0AEC0' }} />
-                      <Tooltip
-                        contentStyle={{ backgroundColor: '#2D3748', border: '1px solid #4A5568', borderRadius: '0.5rem' }}
-                        labelStyle={{ color: '#E2E8F0' }}
-                      />
-                      <Legend wrapperStyle={{ color: '#E2E8F0' }} />
-                      <Line type="monotone" dataKey="saldo" stroke="#38B2AC" strokeWidth={2} dot={{ r: 4 }} activeDot={{ r: 8 }} name="Saldo Restante" />
-                    </LineChart>
-                  </ResponsiveContainer>
-                </div>
-              </div>
-            </>
+          <div className="bg-gray-700 p-4 rounded-lg text-center space-y-2">
+            <h4 className="text-lg font-semibold text-gray-200 flex items-center justify-center space-x-2">
+              <CalendarIcon size={20} className="text-blue-400"/>
+              <span>Fecha Estimada de Finalización</span>
+            </h4>
+            <p className="text-2xl font-bold text-blue-400">{estimatedFinishDate}</p>
+            {projection ? (
+              <>
+                <p className="text-sm text-gray-300">
+                  {projection.paymentsLeft} pagos de ${presetPaymentAmount.toFixed(2)} · {projection.totalMonths} meses
+                </p>
+                {interest && (
+                  <p className="text-xs text-gray-400">Incluye ${projection.totalInterest.toFixed(2)} de intereses por acumular</p>
+                )}
+                {projection.deadline && (
+                  <p className={`text-sm font-semibold ${projection.deadline.meetsDeadline ? 'text-green-400' : 'text-red-400'}`}>
+                    {projection.deadline.meetsDeadline
+                      ? `Terminas ${projection.deadline.daysDifference} días antes del límite`
+                      : `Terminas ${Math.abs(projection.deadline.daysDifference)} días después del límite`}
+                  </p>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-gray-400">Configura días de pago para proyectar la fecha final.</p>
+            )}
+          </div>
+
+          {interest && (
+            <AmortizationTable interest={interest} balanceHistory={fullBalanceHistory} currentBalance={accountBalance} />
+          )}
+
+          {adherenceStats && (
+            <AdherencePanel stats={adherenceStats} paymentQuantity={presetPaymentAmount} paymentDaysPerWeek={getPaymentDaysPerWeek(schedule)} />
           )}
+
+          <div>
+            <h4 className="text-lg font-semibold text-gray-200 mb-4 text-center">Historial de Saldo</h4>
+            <div className="flex justify-center space-x-2 mb-4">
+              {(Object.keys(BALANCE_RANGES) as BalanceRange[]).map((range) => (
+                <button
+                  key={range}
+                  onClick={() => setBalanceRange(range)}
+                  className={`px-3 py-1 rounded-lg text-sm font-medium ${balanceRange === range ? 'bg-teal-600 text-white' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'}`}
+                >
+                  {BALANCE_RANGES[range]}
+                </button>
+              ))}
+            </div>
+            <div style={{ width: '100%', height: 300 }}>
+              <ResponsiveContainer>
+                <LineChart data={formattedData} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#4A5568" />
+                  <XAxis dataKey="fecha" stroke="#A0AEC0" tick={{ fill: '#A0AEC0' }} />
+                  <YAxis stroke="#A0AEC0" tick={{ fill: '#A0AEC0' }} />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#2D3748', border: '1px solid #4A5568', borderRadius: '0.5rem' }}
+                    labelStyle={{ color: '#E2E8F0' }}
+                  />
+                  <Legend wrapperStyle={{ color: '#E2E8F0' }} />
+                  <Line type="stepAfter" dataKey="saldo" stroke="#38B2AC" strokeWidth={2} dot={formattedData.length <= 40 ? { r: 4 } : false} activeDot={{ r: 8 }} name="Saldo Restante" />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
         </div>
       </Modal>
     </div>
@@ -0,0 +1,196 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import dayjs from 'dayjs';
+import { ArrowLeft } from 'lucide-react';
+import { fetchAccounts } from '../../lib/api';
+import { planBaseline, planDebts, PLANNER_STRATEGIES, type PlannerStrategy } from '../../lib/planner';
+import { isAccountAvailable, type AccountOverview, type UnavailableAccount } from '../../lib/debt';
+
+const formatCurrency = (amount: number) =>
+  `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: string | null) => (date ? dayjs(date).format('DD/MM/YYYY') : 'Nunca');
+
+// --- Planificador de pagos entre todas las deudas ---
+const PlannerPage = () => {
+  const [accounts, setAccounts] = useState<AccountOverview[]>([]);
+  const [unavailable, setUnavailable] = useState<UnavailableAccount[]>([]);
+  const [budgetInput, setBudgetInput] = useState('');
+  const [strategy, setStrategy] = useState<PlannerStrategy>('avalanche');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadAccounts = async () => {
+      try {
+        const entries = await fetchAccounts();
+        const overviews = entries.filter(isAccountAvailable);
+        setAccounts(overviews);
+        setUnavailable(entries.filter((entry): entry is UnavailableAccount => !isAccountAvailable(entry)));
+        // Start from what the accounts are configured to receive today
+        const configuredTotal = overviews.reduce((sum, account) => sum + account.constants.paymentQuantity, 0);
+        setBudgetInput(configuredTotal.toFixed(2));
+      } catch (err) {
+        console.error('Error loading accounts:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load accounts');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadAccounts();
+  }, []);
+
+  const dailyBudget = Number(budgetInput);
+
+  // Only changes with the accounts, not with every keystroke in the budget
+  const baseline = useMemo(() => planBaseline(accounts), [accounts]);
+
+  // Every strategy is simulated so they can be compared side by side
+  const plans = useMemo(() => {
+    if (!Number.isFinite(dailyBudget) || dailyBudget <= 0 || accounts.length === 0) return null;
+    return (Object.keys(PLANNER_STRATEGIES) as PlannerStrategy[]).map((key) => planDebts(accounts, dailyBudget, key, baseline));
+  }, [accounts, dailyBudget, baseline]);
+
+  const selectedPlan = plans?.find((plan) => plan.strategy === strategy);
+
+  if (loading) {
+    return (
+      <div className="bg-gray-900 text-white min-h-screen flex flex-col items-center justify-center font-sans p-4">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-400 mx-auto mb-4"></div>
+          <p className="text-xl text-gray-300">Loading accounts...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-gray-900 text-white min-h-screen flex flex-col items-center justify-center font-sans p-4">
+        <div className="text-center max-w-md">
+          <div className="text-red-400 text-6xl mb-4">⚠️</div>
+          <h2 className="text-2xl font-bold text-red-400 mb-4">Error Loading Data</h2>
+          <p className="text-gray-300 mb-6 whitespace-pre-line">{error}</p>
+          <button
+            onClick={() => window.location.reload()}
+            className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-900 text-white min-h-screen flex flex-col items-center font-sans p-4">
+      <div className="w-full max-w-3xl mx-auto space-y-6">
+        <header className="flex items-center justify-between">
+          <Link href="/" className="text-gray-400 hover:text-white flex items-center space-x-2">
+            <ArrowLeft size={20} />
+            <span>Volver</span>
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-200">Planificador de Pagos</h1>
+          <div className="w-16" />
+        </header>
+
+        <div className="bg-gray-800 rounded-3xl shadow-xl p-6 space-y-4">
+          <div>
+            <label htmlFor="daily-budget" className="text-sm text-gray-400 block mb-1">Presupuesto diario para deudas</label>
+            <input
+              id="daily-budget"
+              type="number" min="0" step="0.01"
+              value={budgetInput}
+              onChange={(e) => setBudgetInput(e.target.value)}
+              className="w-full p-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-2xl font-bold"
+            />
+          </div>
+
+          {unavailable.length > 0 && (
+            <p className="text-sm text-orange-400">
+              No se incluyen por no estar disponibles: {unavailable.map((entry) => entry.name).join(', ')}.
+            </p>
+          )}
+
+          {plans && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+              {plans.map((plan) => (
+                <button
+                  key={plan.strategy}
+                  onClick={() => setStrategy(plan.strategy)}
+                  className={`p-3 rounded-xl text-left ${strategy === plan.strategy ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+                >
+                  <span className="text-sm font-semibold block">{PLANNER_STRATEGIES[plan.strategy]}</span>
+                  <span className="text-xs text-gray-300 block">Libre de deudas: {formatDate(plan.debtFreeDate)}</span>
+                  <span className="text-xs text-gray-300 block">Intereses: {formatCurrency(plan.totalInterest)}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {!plans ? (
+          <p className="text-gray-400 text-center">Ingresa un presupuesto diario mayor a $0.</p>
+        ) : selectedPlan && (
+          <div className="bg-gray-800 rounded-3xl shadow-xl p-6 space-y-4">
+            {selectedPlan.budgetBelowMinimums && (
+              <p className="text-sm text-red-400">
+                El presupuesto no alcanza para cubrir el pago mínimo de todas las deudas en los días que coinciden.
+              </p>
+            )}
+
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div>
+                <p className="text-sm text-gray-400">Libre de deudas</p>
+                <p className="text-lg font-bold text-blue-400">{formatDate(selectedPlan.debtFreeDate)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-400">Intereses ahorrados</p>
+                <p className="text-lg font-bold text-green-400">
+                  {selectedPlan.interestSaved !== null ? formatCurrency(selectedPlan.interestSaved) : '—'}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-400">Tiempo ahorrado</p>
+                <p className="text-lg font-bold text-green-400">
+                  {selectedPlan.daysSaved !== null ? `${selectedPlan.daysSaved} días` : '—'}
+                </p>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 text-center">Comparado con pagar solo el mínimo diario de cada deuda.</p>
+
+            <table className="w-full text-sm">
+              <thead className="text-gray-400">
+                <tr>
+                  <th className="text-left py-2">Deuda</th>
+                  <th className="text-right">Saldo</th>
+                  <th className="text-right">Pago</th>
+                  <th className="text-right">Termina</th>
+                  <th className="text-right">Intereses</th>
+                </tr>
+              </thead>
+              <tbody>
+                {selectedPlan.debts.map((debt) => (
+                  <tr key={debt.key} className="border-t border-gray-700">
+                    <td className="py-2">{debt.name}</td>
+                    <td className="text-right">{formatCurrency(debt.balance)}</td>
+                    <td className="text-right">{formatCurrency(debt.initialPayment)}</td>
+                    <td className={`text-right ${debt.meetsDeadline === false ? 'text-red-400' : debt.meetsDeadline ? 'text-green-400' : ''}`}>
+                      {formatDate(debt.payoffDate)}
+                    </td>
+                    <td className="text-right">{formatCurrency(debt.totalInterest)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PlannerPage;
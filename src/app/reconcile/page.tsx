@@ -0,0 +1,402 @@
+'use client';
+
+import React, { Suspense, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import dayjs from 'dayjs';
+import { ArrowLeft, CheckCircle } from 'lucide-react';
+import toast, { Toaster } from 'react-hot-toast';
+import { fetchAccounts, markPaymentsCleared, reconcileStatement } from '../../lib/api';
+import { DEBT_ACCOUNT_SOURCE, DEFAULT_TOLERANCE_DAYS, type ReconciliationResult } from '../../lib/reconcile';
+import {
+  getStatementMapping,
+  guessStatementMapping,
+  parseStatementCsv,
+  readStatement,
+  saveStatementMapping,
+  STATEMENT_DATE_FORMATS,
+  type ParsedStatement,
+  type StatementDateFormat,
+  type StatementMapping,
+} from '../../lib/statement';
+import { isAccountAvailable, type AccountOverview } from '../../lib/debt';
+
+const formatCurrency = (amount: number) =>
+  `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: string) => dayjs(date).format('DD/MM/YYYY');
+
+const inputClass = 'w-full p-2 bg-gray-700 border border-gray-600 rounded-lg text-white';
+const labelClass = 'text-sm text-gray-400 block mb-1';
+
+// --- Selector de columna del estado de cuenta ---
+const ColumnSelect = ({ label, value, headers, optional, onChange }: {
+  label: string;
+  value: string;
+  headers: string[];
+  optional?: boolean;
+  onChange: (column: string) => void;
+}) => (
+  <div>
+    <label className={labelClass}>{label}</label>
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+      <option value="">{optional ? 'Ninguna' : 'Selecciona una columna…'}</option>
+      {headers.map((header) => <option key={header} value={header}>{header}</option>)}
+    </select>
+  </div>
+);
+
+// --- Conciliación de estados de cuenta contra los pagos en YNAB ---
+const ReconcilePage = () => {
+  const searchParams = useSearchParams();
+  const [accounts, setAccounts] = useState<AccountOverview[]>([]);
+  const [accountKey, setAccountKey] = useState(searchParams.get('account') ?? '');
+  const [source, setSource] = useState(DEBT_ACCOUNT_SOURCE);
+  const [statement, setStatement] = useState<ParsedStatement | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mapping, setMapping] = useState<StatementMapping | null>(null);
+  const [toleranceInput, setToleranceInput] = useState(String(DEFAULT_TOLERANCE_DAYS));
+  const [result, setResult] = useState<ReconciliationResult | null>(null);
+  const [working, setWorking] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadAccounts = async () => {
+      try {
+        // Accounts YNAB couldn't load can't be reconciled either
+        const overviews = (await fetchAccounts()).filter(isAccountAvailable);
+        setAccounts(overviews);
+        setAccountKey((current) => current || overviews[0]?.key || '');
+      } catch (err) {
+        console.error('Error loading accounts:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load accounts');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadAccounts();
+  }, []);
+
+  const account = accounts.find((candidate) => candidate.key === accountKey);
+  const toleranceDays = Number(toleranceInput);
+  const toleranceValid = Number.isInteger(toleranceDays) && toleranceDays >= 0 && toleranceDays <= 31;
+
+  const read = useMemo(() => {
+    if (!statement || !mapping) return null;
+    return readStatement(statement, mapping);
+  }, [statement, mapping]);
+
+  // The matches YNAB still shows as "No Confirmado"
+  const unclearedMatches = result?.matches.filter((match) => match.transaction.cleared === 'uncleared' && match.transaction.id) ?? [];
+
+  const selectSource = (next: string) => {
+    setSource(next);
+    setResult(null);
+    if (statement) {
+      setMapping(getStatementMapping(next) ?? guessStatementMapping(statement.headers));
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    setResult(null);
+    if (!file) return;
+
+    const parsed = parseStatementCsv(await file.text());
+    if (parsed.headers.length === 0) {
+      toast.error('El archivo está vacío.');
+      return;
+    }
+    setFileName(file.name);
+    setStatement(parsed);
+    // Reuse the columns picked for this source last time, when the file still has them
+    const saved = getStatementMapping(source);
+    setMapping(saved && parsed.headers.includes(saved.dateColumn) && parsed.headers.includes(saved.amountColumn)
+      ? saved
+      : guessStatementMapping(parsed.headers));
+  };
+
+  const updateMapping = (changes: Partial<StatementMapping>) => {
+    setMapping((current) => (current ? { ...current, ...changes } : current));
+    setResult(null);
+  };
+
+  const runReconciliation = async () => {
+    if (!read || !mapping || read.lines.length === 0) return;
+    try {
+      setWorking(true);
+      setResult(await reconcileStatement(accountKey, { source, lines: read.lines, toleranceDays }));
+      saveStatementMapping(source, mapping);
+    } catch (err) {
+      console.error('Error reconciling statement:', err);
+      toast.error(err instanceof Error ? err.message : 'Error al conciliar.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleMarkCleared = async () => {
+    try {
+      setWorking(true);
+      await markPaymentsCleared(accountKey, unclearedMatches.map((match) => match.transaction.id as string));
+      toast.success(`${unclearedMatches.length} pago(s) marcados como confirmados.`);
+    } catch (err) {
+      console.error('Error clearing payments:', err);
+      toast.error('Error al confirmar los pagos en YNAB.');
+    } finally {
+      setWorking(false);
+    }
+    await runReconciliation();
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-gray-900 text-white min-h-screen flex flex-col items-center justify-center font-sans p-4">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-400 mx-auto mb-4"></div>
+          <p className="text-xl text-gray-300">Loading accounts...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-gray-900 text-white min-h-screen flex flex-col items-center justify-center font-sans p-4">
+        <div className="text-center max-w-md">
+          <div className="text-red-400 text-6xl mb-4">⚠️</div>
+          <h2 className="text-2xl font-bold text-red-400 mb-4">Error Loading Data</h2>
+          <p className="text-gray-300 mb-6 whitespace-pre-line">{error}</p>
+          <button
+            onClick={() => window.location.reload()}
+            className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-900 text-white min-h-screen flex flex-col items-center font-sans p-4">
+      <Toaster position="top-right" toastOptions={{ duration: 3000 }} />
+
+      <div className="w-full max-w-3xl mx-auto space-y-6">
+        <header className="flex items-center justify-between">
+          <Link href={accountKey ? `/?account=${encodeURIComponent(accountKey)}` : '/'} className="text-gray-400 hover:text-white flex items-center space-x-2">
+            <ArrowLeft size={20} />
+            <span>Volver</span>
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-200">Conciliar Estado de Cuenta</h1>
+          <div className="w-16" />
+        </header>
+
+        <div className="bg-gray-800 rounded-3xl shadow-xl p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Deuda</label>
+              <select
+                value={accountKey}
+                onChange={(e) => { setAccountKey(e.target.value); setSource(DEBT_ACCOUNT_SOURCE); setResult(null); }}
+                className={inputClass}
+              >
+                {accounts.map((option) => <option key={option.key} value={option.key}>{option.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Estado de cuenta de</label>
+              <select value={source} onChange={(e) => selectSource(e.target.value)} className={inputClass}>
+                <option value={DEBT_ACCOUNT_SOURCE}>La cuenta de la deuda</option>
+                {account?.paymentMethods.filter((method) => method.accountId).map((method) => (
+                  <option key={method.name} value={method.name}>{method.label || method.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Archivo CSV</label>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="block w-full text-sm text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-gray-700 file:text-white hover:file:bg-gray-600"
+            />
+            {fileName && <p className="text-xs text-gray-500 mt-1">{fileName} · {statement?.rows.length ?? 0} filas</p>}
+          </div>
+
+          {statement && mapping && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 bg-gray-700/50 p-4 rounded-lg">
+              <ColumnSelect label="Fecha" value={mapping.dateColumn} headers={statement.headers} onChange={(dateColumn) => updateMapping({ dateColumn })} />
+              <ColumnSelect label="Monto" value={mapping.amountColumn} headers={statement.headers} onChange={(amountColumn) => updateMapping({ amountColumn })} />
+              <ColumnSelect label="Descripción" value={mapping.descriptionColumn} headers={statement.headers} optional onChange={(descriptionColumn) => updateMapping({ descriptionColumn })} />
+              <div>
+                <label className={labelClass}>Formato de fecha</label>
+                <select
+                  value={mapping.dateFormat}
+                  onChange={(e) => updateMapping({ dateFormat: e.target.value as StatementDateFormat })}
+                  className={inputClass}
+                >
+                  {STATEMENT_DATE_FORMATS.map((format) => <option key={format} value={format}>{format}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Tolerancia (días)</label>
+                <input
+                  type="number" min="0" max="31" step="1"
+                  value={toleranceInput}
+                  onChange={(e) => { setToleranceInput(e.target.value); setResult(null); }}
+                  className={inputClass}
+                />
+              </div>
+              <label className="flex items-center space-x-2 text-gray-300 text-sm">
+                <input
+                  type="checkbox"
+                  checked={mapping.outflowsOnly}
+                  onChange={(e) => updateMapping({ outflowsOnly: e.target.checked })}
+                />
+                <span>Solo salidas (montos negativos)</span>
+              </label>
+            </div>
+          )}
+
+          {read && (
+            <div className="text-sm space-y-1">
+              <p className="text-gray-300">{read.lines.length} movimiento(s) para conciliar.</p>
+              {read.skipped > 0 && (
+                <p className="text-xs text-gray-400">
+                  {read.skipped} fila(s) omitida(s) por monto cero{mapping?.outflowsOnly ? ' o de entrada' : ''}.
+                </p>
+              )}
+              {read.errors.slice(0, 5).map((message) => <p key={message} className="text-xs text-red-400">{message}</p>)}
+              {read.errors.length > 5 && <p className="text-xs text-red-400">y {read.errors.length - 5} error(es) más.</p>}
+            </div>
+          )}
+
+          <button
+            onClick={runReconciliation}
+            disabled={working || !read || read.lines.length === 0 || !toleranceValid || !accountKey}
+            className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-xl transition-colors"
+          >
+            Conciliar
+          </button>
+        </div>
+
+        {result && (
+          <div className="bg-gray-800 rounded-3xl shadow-xl p-6 space-y-6">
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div>
+                <p className="text-sm text-gray-400">Coinciden</p>
+                <p className="text-lg font-bold text-green-400">{result.matches.length}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-400">Solo en el estado</p>
+                <p className="text-lg font-bold text-orange-400">{result.unmatchedLines.length}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-400">Solo en YNAB</p>
+                <p className="text-lg font-bold text-red-400">{result.unmatchedTransactions.length}</p>
+              </div>
+            </div>
+
+            {unclearedMatches.length > 0 && (
+              <button
+                onClick={handleMarkCleared}
+                disabled={working}
+                className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-500 text-white font-bold py-3 px-4 rounded-xl transition-colors flex items-center justify-center space-x-2"
+              >
+                <CheckCircle size={20} />
+                <span>Marcar {unclearedMatches.length} pago(s) como confirmados</span>
+              </button>
+            )}
+
+            {result.matches.length > 0 && (
+              <div>
+                <h3 className="text-lg font-semibold text-gray-200 mb-2">Coinciden</h3>
+                <table className="w-full text-sm">
+                  <thead className="text-gray-400">
+                    <tr>
+                      <th className="text-left py-2">Estado de cuenta</th>
+                      <th className="text-left">YNAB</th>
+                      <th className="text-right">Monto</th>
+                      <th className="text-right">Estado</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.matches.map(({ line, transaction }) => (
+                      <tr key={line.row} className="border-t border-gray-700">
+                        <td className="py-2">
+                          {formatDate(line.date)}
+                          {line.description && <span className="block text-xs text-gray-500">{line.description}</span>}
+                        </td>
+                        <td>{formatDate(transaction.date)}</td>
+                        <td className="text-right">{formatCurrency(transaction.amount)}</td>
+                        <td className={`text-right ${transaction.cleared === 'uncleared' ? 'text-yellow-400' : 'text-green-400'}`}>
+                          {transaction.cleared === 'uncleared' ? 'No Confirmado' : 'Confirmado'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {result.unmatchedLines.length > 0 && (
+              <div>
+                <h3 className="text-lg font-semibold text-orange-400 mb-2">En el estado de cuenta pero no en YNAB</h3>
+                <ul className="text-sm space-y-1">
+                  {result.unmatchedLines.map((line) => (
+                    <li key={line.row} className="bg-gray-700 rounded-lg p-2 flex justify-between">
+                      <span>
+                        {formatDate(line.date)} · fila {line.row}
+                        {line.description && <span className="block text-xs text-gray-400">{line.description}</span>}
+                      </span>
+                      <span className="font-semibold">{formatCurrency(line.amount)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {result.unmatchedTransactions.length > 0 && (
+              <div>
+                <h3 className="text-lg font-semibold text-red-400 mb-2">En YNAB pero no en el estado de cuenta</h3>
+                <ul className="text-sm space-y-1">
+                  {result.unmatchedTransactions.map((transaction) => (
+                    <li key={transaction.id} className="bg-gray-700 rounded-lg p-2 flex justify-between">
+                      <span>
+                        {formatDate(transaction.date)}{transaction.method ? ` · ${transaction.method}` : ''}
+                        {transaction.memo && <span className="block text-xs text-gray-400">{transaction.memo}</span>}
+                      </span>
+                      <span className="font-semibold">{formatCurrency(transaction.amount)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// --- Página con Suspense para leer ?account= ---
+const ReconcileApp = () => {
+  return (
+    <Suspense fallback={
+      <div className="bg-gray-900 text-white min-h-screen flex flex-col items-center justify-center font-sans p-4">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-400 mx-auto mb-4"></div>
+          <p className="text-xl text-gray-300">Loading...</p>
+        </div>
+      </div>
+    }>
+      <ReconcilePage />
+    </Suspense>
+  );
+};
+
+export default ReconcileApp;
@@ -0,0 +1,1267 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Bell, BellOff, CalendarX, Plus, RefreshCw, Save, Send, Trash2 } from 'lucide-react';
+import toast, { Toaster } from 'react-hot-toast';
+import { deleteAccountSettings, fetchAccountSettings, fetchYnabAccounts, fetchYnabBudgets, removeYnabSchedule, saveAccountSettings, sendTestNotification, syncYnabSchedule, type ScheduleSyncResult } from '../../lib/api';
+import { getPushSubscription, isPushSupported, subscribeToPush, unsubscribeFromPush } from '../../lib/pushNotifications';
+import { isValidAccountKey, validateAccountConfig } from '../../lib/validation';
+import { COMPOUNDING_PERIODS, getPaymentAccounts, getPaymentMethods, PAYMENT_METHOD_COLORS, REMINDER_CHANNELS, SCHEDULE_TYPES, type AccountConfig, type CompoundingPeriod, type DeadlineConfig, type PaymentMethodColor, type PaymentMethodConfig, type PaymentSchedule, type ReminderChannel, type ReminderConfig, type ScheduleExclusion, type ScheduleType, type YnabAccountOption, type YnabBudgetOption, type YnabScheduleConfig } from '../../lib/debt';
+
+const WEEKDAYS = ['Dom', 'Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb'];
+
+interface InterestDraft {
+  apr: string;
+  compounding: CompoundingPeriod;
+  principal: string;
+  termMonths: string;
+  startDate: string;
+}
+
+interface ReminderDraft {
+  cutoffTime: string;
+  hasQuietHours: boolean;
+  quietStart: string;
+  quietEnd: string;
+  channels: ReminderChannel[];
+  escalate: boolean;
+  repeatMinutes: string;
+}
+
+interface ExclusionRow {
+  from: string;
+  to: string;
+  reason: string;
+}
+
+interface PaymentMethodRow {
+  method: string;
+  label: string;
+  color: PaymentMethodColor | ''; // '' takes the next color of the palette
+  hasAccount: boolean; // Unchecked is the explicit choice of a plain payment
+  accountId: string;
+  minPayment: string;
+  maxPayment: string;
+  feeFixed: string;
+  feePercent: string;
+}
+
+// Form state, numbers are kept as strings so inputs can be cleared while typing
+interface AccountDraft {
+  key: string;
+  name: string;
+  budgetId: string;
+  accountId: string;
+  paymentQuantity: string;
+  minDailyPayment: string;
+  maxDailyPayment: string;
+  scheduleType: ScheduleType;
+  paymentDays: number[];
+  monthDays: string; // Comma separated, e.g. "15, 30"
+  everyDays: string;
+  anchorDate: string;
+  exclusions: ExclusionRow[];
+  hasDeadline: boolean;
+  deadlineConfig: DeadlineConfig;
+  hasInterest: boolean;
+  interest: InterestDraft;
+  hasReminders: boolean;
+  reminders: ReminderDraft;
+  paymentMethods: PaymentMethodRow[];
+  // Managed from the YNAB schedule card, carried along so saving the form keeps it
+  ynabSchedule?: YnabScheduleConfig;
+}
+
+const EMPTY_DEADLINE: DeadlineConfig = {
+  enabled: true,
+  endDate: '',
+  showDaysRemaining: true,
+  description: 'Días de pago restantes',
+};
+
+const EMPTY_INTEREST: InterestDraft = {
+  apr: '',
+  compounding: 'monthly',
+  principal: '',
+  termMonths: '',
+  startDate: '',
+};
+
+const EMPTY_REMINDERS: ReminderDraft = {
+  cutoffTime: '18:00',
+  hasQuietHours: false,
+  quietStart: '22:00',
+  quietEnd: '07:00',
+  channels: [...REMINDER_CHANNELS],
+  escalate: false,
+  repeatMinutes: '60',
+};
+
+const EMPTY_PAYMENT_METHOD: PaymentMethodRow = {
+  method: '',
+  label: '',
+  color: '',
+  hasAccount: true,
+  accountId: '',
+  minPayment: '',
+  maxPayment: '',
+  feeFixed: '',
+  feePercent: '',
+};
+
+const SCHEDULE_LABELS: Record<ScheduleType, string> = {
+  weekdays: 'Días de la semana',
+  monthDays: 'Días del mes',
+  interval: 'Cada N días',
+};
+
+const CHANNEL_LABELS: Record<ReminderChannel, string> = {
+  push: 'Push',
+  webhook: 'Webhook',
+  email: 'Correo',
+};
+
+const COLOR_LABELS: Record<PaymentMethodColor, string> = {
+  purple: 'Morado',
+  green: 'Verde',
+  blue: 'Azul',
+  orange: 'Naranja',
+  pink: 'Rosado',
+  teal: 'Turquesa',
+  gray: 'Gris',
+};
+
+const COMPOUNDING_LABELS: Record<CompoundingPeriod, string> = {
+  daily: 'Diaria',
+  monthly: 'Mensual',
+  annually: 'Anual',
+};
+
+function emptyDraft(): AccountDraft {
+  return {
+    key: '',
+    name: '',
+    budgetId: '',
+    accountId: '',
+    paymentQuantity: '',
+    minDailyPayment: '',
+    maxDailyPayment: '',
+    scheduleType: 'weekdays',
+    paymentDays: [1, 2, 3, 4, 5],
+    monthDays: '',
+    everyDays: '14',
+    anchorDate: '',
+    exclusions: [],
+    hasDeadline: false,
+    deadlineConfig: { ...EMPTY_DEADLINE },
+    hasInterest: false,
+    interest: { ...EMPTY_INTEREST },
+    hasReminders: false,
+    reminders: { ...EMPTY_REMINDERS },
+    paymentMethods: [],
+  };
+}
+
+function toDraft(key: string, config: AccountConfig): AccountDraft {
+  const { schedule } = config.constants;
+  return {
+    key,
+    name: config.name,
+    budgetId: config.budgetId || '',
+    accountId: config.accountId,
+    paymentQuantity: String(config.constants.paymentQuantity),
+    minDailyPayment: String(config.constants.minDailyPayment),
+    maxDailyPayment: String(config.constants.maxDailyPayment),
+    scheduleType: schedule?.type ?? 'weekdays',
+    paymentDays: schedule?.type === 'weekdays' ? [...schedule.weekdays] : [...config.constants.paymentDays],
+    monthDays: schedule?.type === 'monthDays' ? schedule.days.join(', ') : '',
+    everyDays: schedule?.type === 'interval' ? String(schedule.everyDays) : '14',
+    anchorDate: schedule?.type === 'interval' ? schedule.anchorDate : '',
+    exclusions: (schedule?.exclusions ?? []).map((exclusion) => ({
+      from: exclusion.from,
+      to: exclusion.to ?? '',
+      reason: exclusion.reason ?? '',
+    })),
+    hasDeadline: Boolean(config.deadlineConfig),
+    deadlineConfig: config.deadlineConfig ? { ...config.deadlineConfig } : { ...EMPTY_DEADLINE },
+    hasInterest: Boolean(config.interest),
+    interest: config.interest
+      ? {
+          apr: String(config.interest.apr),
+          compounding: config.interest.compounding,
+          principal: String(config.interest.principal),
+          termMonths: String(config.interest.termMonths),
+          startDate: config.interest.startDate,
+        }
+      : { ...EMPTY_INTEREST },
+    hasReminders: Boolean(config.reminders?.enabled),
+    reminders: config.reminders
+      ? {
+          cutoffTime: config.reminders.cutoffTime,
+          hasQuietHours: Boolean(config.reminders.quietHours),
+          quietStart: config.reminders.quietHours?.start ?? EMPTY_REMINDERS.quietStart,
+          quietEnd: config.reminders.quietHours?.end ?? EMPTY_REMINDERS.quietEnd,
+          channels: config.reminders.channels ? [...config.reminders.channels] : [...REMINDER_CHANNELS],
+          escalate: Boolean(config.reminders.escalation?.enabled),
+          repeatMinutes: String(config.reminders.escalation?.repeatMinutes ?? EMPTY_REMINDERS.repeatMinutes),
+        }
+      : { ...EMPTY_REMINDERS },
+    paymentMethods: getPaymentMethods(config).map((method) => ({
+      method: method.name,
+      label: method.label ?? '',
+      color: method.color ?? '',
+      hasAccount: method.accountId !== null,
+      accountId: method.accountId ?? '',
+      minPayment: method.minPayment !== undefined ? String(method.minPayment) : '',
+      maxPayment: method.maxPayment !== undefined ? String(method.maxPayment) : '',
+      feeFixed: method.fee?.fixed !== undefined ? String(method.fee.fixed) : '',
+      feePercent: method.fee?.percent !== undefined ? String(method.fee.percent) : '',
+    })),
+    ynabSchedule: config.ynabSchedule ? { ...config.ynabSchedule } : undefined,
+  };
+}
+
+// Plain weekdays without exclusions stay in paymentDays, anything else needs a schedule
+function scheduleFromDraft(draft: AccountDraft): PaymentSchedule | undefined {
+  const weekdays = [...draft.paymentDays].sort((a, b) => a - b);
+  const exclusions = draft.exclusions.map((row): ScheduleExclusion => {
+    const exclusion: ScheduleExclusion = { from: row.from };
+    if (row.to && row.to !== row.from) exclusion.to = row.to;
+    if (row.reason.trim()) exclusion.reason = row.reason.trim();
+    return exclusion;
+  });
+  const withExclusions = exclusions.length > 0 ? { exclusions } : {};
+
+  switch (draft.scheduleType) {
+    case 'weekdays':
+      return exclusions.length > 0 ? { type: 'weekdays', weekdays, ...withExclusions } : undefined;
+    case 'monthDays':
+      return {
+        type: 'monthDays',
+        days: draft.monthDays.split(/[\s,]+/).filter(Boolean).map(Number).sort((a, b) => a - b),
+        ...withExclusions,
+      };
+    case 'interval':
+      return { type: 'interval', everyDays: Number(draft.everyDays), anchorDate: draft.anchorDate, ...withExclusions };
+  }
+}
+
+// Every channel checked is saved as no channel list, so channels configured later are used too
+function remindersFromDraft({ reminders }: AccountDraft): ReminderConfig {
+  const config: ReminderConfig = { enabled: true, cutoffTime: reminders.cutoffTime };
+  if (reminders.hasQuietHours) {
+    config.quietHours = { start: reminders.quietStart, end: reminders.quietEnd };
+  }
+  if (reminders.channels.length < REMINDER_CHANNELS.length) {
+    config.channels = REMINDER_CHANNELS.filter((channel) => reminders.channels.includes(channel));
+  }
+  if (reminders.escalate) {
+    config.escalation = { enabled: true, repeatMinutes: Number(reminders.repeatMinutes) };
+  }
+  return config;
+}
+
+// Empty optional inputs are left out of the method instead of being saved as 0
+function paymentMethodFromRow(row: PaymentMethodRow): PaymentMethodConfig {
+  const method: PaymentMethodConfig = { name: row.method.trim(), accountId: row.hasAccount ? row.accountId : null };
+  if (row.label.trim()) method.label = row.label.trim();
+  if (row.color) method.color = row.color;
+  if (row.minPayment.trim()) method.minPayment = Number(row.minPayment);
+  if (row.maxPayment.trim()) method.maxPayment = Number(row.maxPayment);
+  // Fees are charged to the method's account, so a method without one has none
+  if (row.hasAccount && (row.feeFixed.trim() || row.feePercent.trim())) {
+    method.fee = {};
+    if (row.feeFixed.trim()) method.fee.fixed = Number(row.feeFixed);
+    if (row.feePercent.trim()) method.fee.percent = Number(row.feePercent);
+  }
+  return method;
+}
+
+// Older configs with paymentAccounts are saved in the paymentMethods form
+function fromDraft(draft: AccountDraft): AccountConfig {
+  const schedule = scheduleFromDraft(draft);
+  const config: AccountConfig = {
+    accountId: draft.accountId,
+    name: draft.name.trim(),
+    constants: {
+      paymentQuantity: Number(draft.paymentQuantity),
+      minDailyPayment: Number(draft.minDailyPayment),
+      maxDailyPayment: Number(draft.maxDailyPayment),
+      paymentDays: draft.scheduleType === 'weekdays' ? [...draft.paymentDays].sort((a, b) => a - b) : [],
+    },
+  };
+  if (schedule) {
+    config.constants.schedule = schedule;
+  }
+  if (draft.budgetId) {
+    config.budgetId = draft.budgetId;
+  }
+  if (draft.hasDeadline) {
+    config.deadlineConfig = draft.deadlineConfig;
+  }
+  if (draft.hasInterest) {
+    config.interest = {
+      apr: Number(draft.interest.apr),
+      compounding: draft.interest.compounding,
+      principal: Number(draft.interest.principal),
+      termMonths: Number(draft.interest.termMonths),
+      startDate: draft.interest.startDate,
+    };
+  }
+  if (draft.hasReminders) {
+    config.reminders = remindersFromDraft(draft);
+  }
+  if (draft.paymentMethods.length > 0) {
+    config.paymentMethods = draft.paymentMethods.map(paymentMethodFromRow);
+  }
+  // Removing or renaming its payment method also stops the YNAB schedule; the server cleans it up
+  if (draft.ynabSchedule && getPaymentAccounts(config)[draft.ynabSchedule.paymentMethod]) {
+    config.ynabSchedule = draft.ynabSchedule;
+  }
+  return config;
+}
+
+// Number('') is 0, so empty inputs are reported here instead of being saved as 0
+function validateDraft(draft: AccountDraft, isNew: boolean, existingKeys: string[]): string[] {
+  const issues: string[] = [];
+  if (!isValidAccountKey(draft.key)) {
+    issues.push('La clave solo puede contener letras minúsculas, números y guiones.');
+  } else if (isNew && existingKeys.includes(draft.key)) {
+    issues.push(`Ya existe una cuenta con la clave "${draft.key}".`);
+  }
+  for (const field of ['paymentQuantity', 'minDailyPayment', 'maxDailyPayment'] as const) {
+    if (draft[field].trim() === '') {
+      issues.push(`constants.${field}: es obligatorio`);
+    }
+  }
+  if (draft.hasInterest) {
+    for (const field of ['apr', 'principal', 'termMonths'] as const) {
+      if (draft.interest[field].trim() === '') {
+        issues.push(`interest.${field}: es obligatorio`);
+      }
+    }
+  }
+  if (draft.hasReminders && draft.reminders.channels.length === 0) {
+    issues.push('Elige al menos un canal para los recordatorios.');
+  }
+  const methods = draft.paymentMethods.map((row) => row.method.trim());
+  if (new Set(methods).size !== methods.length) {
+    issues.push('Cada método de pago debe tener un nombre distinto.');
+  }
+  return [...issues, ...validateAccountConfig(fromDraft(draft), draft.key || 'account')];
+}
+
+const inputClass = 'w-full p-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400';
+const labelClass = 'text-sm text-gray-400 block mb-1';
+
+// --- Selector de cuentas de YNAB ---
+const YnabAccountSelect = ({ value, onChange, accounts }: {
+  value: string;
+  onChange: (accountId: string) => void;
+  accounts: YnabAccountOption[];
+}) => {
+  const isKnown = value === '' || accounts.some((account) => account.id === value);
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+      <option value="">Selecciona una cuenta…</option>
+      {!isKnown && <option value={value}>Cuenta desconocida ({value})</option>}
+      {accounts.map((account) => (
+        <option key={account.id} value={account.id}>
+          {account.name} · ${Math.abs(account.balance).toFixed(2)}{account.closed ? ' (cerrada)' : ''}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+const describeSync = ({ created, updated, deleted, unchanged }: ScheduleSyncResult) =>
+  `${created} creadas, ${updated} actualizadas, ${deleted} eliminadas, ${unchanged} sin cambios`;
+
+// --- Pagos programados en YNAB ---
+const YnabScheduleCard = ({ accountKey, config, onChange }: {
+  accountKey: string;
+  config: AccountConfig;
+  onChange: (config: AccountConfig) => void;
+}) => {
+  // Only saved payment methods with an account can be scheduled
+  const methods = Object.keys(getPaymentAccounts(config));
+  const [method, setMethod] = useState(config.ynabSchedule?.paymentMethod ?? methods[0] ?? '');
+  const [working, setWorking] = useState(false);
+
+  const sync = async () => {
+    try {
+      setWorking(true);
+      const result = await syncYnabSchedule(accountKey, method);
+      onChange({ ...config, ynabSchedule: { enabled: true, paymentMethod: method } });
+      toast.success(`Pagos programados sincronizados: ${describeSync(result)}.`);
+    } catch (err) {
+      console.error('Error syncing YNAB schedule:', err);
+      toast.error(err instanceof Error ? err.message : 'No se pudo sincronizar con YNAB.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const remove = async () => {
+    try {
+      setWorking(true);
+      const result = await removeYnabSchedule(accountKey);
+      const next = { ...config };
+      delete next.ynabSchedule;
+      onChange(next);
+      toast.success(`Pagos programados quitados de YNAB: ${result.deleted} eliminadas.`);
+    } catch (err) {
+      console.error('Error removing YNAB schedule:', err);
+      toast.error(err instanceof Error ? err.message : 'No se pudieron quitar los pagos de YNAB.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-3xl shadow-xl p-6 space-y-3">
+      <h2 className="text-lg font-semibold text-gray-200">Pagos programados en YNAB</h2>
+      <p className="text-sm text-gray-400">
+        {config.ynabSchedule?.enabled
+          ? `Sincronizado como transferencias desde ${config.ynabSchedule.paymentMethod}. Se actualizan al guardar y se eliminan al terminar de pagar.`
+          : 'Crea transacciones programadas en YNAB con el monto y los días de pago de esta cuenta. Las exclusiones no se copian.'}
+      </p>
+      {methods.length === 0 ? (
+        <p className="text-sm text-gray-500">Guarda un método de pago con cuenta para poder programar los pagos.</p>
+      ) : (
+        <>
+          <select value={method} onChange={(e) => setMethod(e.target.value)} className={inputClass}>
+            {methods.map((name) => <option key={name} value={name}>{name}</option>)}
+          </select>
+          <div className="flex space-x-2">
+            <button
+              onClick={sync}
+              disabled={working || !method}
+              className="flex-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white py-2 px-4 rounded-xl flex items-center justify-center space-x-2"
+            >
+              <RefreshCw size={18} />
+              <span>Sincronizar con YNAB</span>
+            </button>
+            <button
+              onClick={remove}
+              disabled={working || !config.ynabSchedule}
+              className="flex-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white py-2 px-4 rounded-xl flex items-center justify-center space-x-2"
+            >
+              <CalendarX size={18} />
+              <span>Quitar de YNAB</span>
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+// --- Notificaciones push de este dispositivo ---
+const PushNotificationsCard = () => {
+  const [supported, setSupported] = useState(false);
+  const [subscribed, setSubscribed] = useState(false);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    setSupported(isPushSupported());
+    getPushSubscription()
+      .then((subscription) => setSubscribed(subscription !== null))
+      .catch((err) => console.error('Error reading push subscription:', err));
+  }, []);
+
+  const togglePush = async () => {
+    try {
+      setWorking(true);
+      if (subscribed) {
+        await unsubscribeFromPush();
+        setSubscribed(false);
+        toast.success('Notificaciones desactivadas en este dispositivo.');
+      } else {
+        await subscribeToPush();
+        setSubscribed(true);
+        toast.success('Notificaciones activadas en este dispositivo.');
+      }
+    } catch (err) {
+      console.error('Error changing push subscription:', err);
+      toast.error(err instanceof Error ? err.message : 'No se pudo cambiar la suscripción.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const sendTest = async () => {
+    try {
+      setWorking(true);
+      const { delivered, errors } = await sendTestNotification();
+      if (delivered.length > 0) {
+        toast.success(`Prueba enviada por: ${delivered.join(', ')}.`);
+      }
+      errors.forEach((message) => toast.error(message));
+    } catch (err) {
+      console.error('Error sending test notification:', err);
+      toast.error('No se pudo enviar la prueba.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-3xl shadow-xl p-6 space-y-3">
+      <h2 className="text-lg font-semibold text-gray-200">Recordatorios</h2>
+      <p className="text-sm text-gray-400">
+        Los canales se configuran en el servidor. Las notificaciones push llegan a los dispositivos activados aquí.
+      </p>
+      <div className="flex space-x-2">
+        <button
+          onClick={togglePush}
+          disabled={working || !supported}
+          className="flex-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white py-2 px-4 rounded-xl flex items-center justify-center space-x-2"
+        >
+          {subscribed ? <BellOff size={18} /> : <Bell size={18} />}
+          <span>{!supported ? 'Push no disponible' : subscribed ? 'Desactivar en este dispositivo' : 'Activar en este dispositivo'}</span>
+        </button>
+        <button
+          onClick={sendTest}
+          disabled={working}
+          className="flex-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white py-2 px-4 rounded-xl flex items-center justify-center space-x-2"
+        >
+          <Send size={18} />
+          <span>Enviar prueba</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// --- Página de Configuración de Cuentas ---
+const SettingsPage = () => {
+  const [configs, setConfigs] = useState<Record<string, AccountConfig>>({});
+  const [budgets, setBudgets] = useState<YnabBudgetOption[]>([]);
+  const [ynabAccounts, setYnabAccounts] = useState<YnabAccountOption[]>([]);
+  const [accountsError, setAccountsError] = useState<string | null>(null);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [draft, setDraft] = useState<AccountDraft>(emptyDraft());
+  const [issues, setIssues] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        setLoading(true);
+        const [accountConfigs, ynabBudgets] = await Promise.all([fetchAccountSettings(), fetchYnabBudgets()]);
+        setConfigs(accountConfigs);
+        setBudgets(ynabBudgets);
+      } catch (err) {
+        console.error('Error loading settings:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load settings');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSettings();
+  }, []);
+
+  // The account pickers list the accounts of the selected budget
+  useEffect(() => {
+    if (loading) return;
+
+    const loadYnabAccounts = async () => {
+      try {
+        setAccountsError(null);
+        setYnabAccounts(await fetchYnabAccounts(draft.budgetId || undefined));
+      } catch (err) {
+        console.error('Error loading YNAB accounts:', err);
+        setYnabAccounts([]);
+        setAccountsError(err instanceof Error ? err.message : 'Failed to load YNAB accounts');
+      }
+    };
+
+    loadYnabAccounts();
+  }, [draft.budgetId, loading]);
+
+  const isNew = selectedKey === null;
+  const accountKeys = useMemo(() => Object.keys(configs), [configs]);
+
+  const selectAccount = (key: string | null) => {
+    setSelectedKey(key);
+    setDraft(key ? toDraft(key, configs[key]) : emptyDraft());
+    setIssues([]);
+  };
+
+  const updateDraft = (changes: Partial<AccountDraft>) => setDraft((current) => ({ ...current, ...changes }));
+
+  const toggleWeekday = (day: number) => {
+    updateDraft({
+      paymentDays: draft.paymentDays.includes(day)
+        ? draft.paymentDays.filter((d) => d !== day)
+        : [...draft.paymentDays, day],
+    });
+  };
+
+  const updateExclusion = (index: number, changes: Partial<ExclusionRow>) => {
+    updateDraft({
+      exclusions: draft.exclusions.map((row, i) => (i === index ? { ...row, ...changes } : row)),
+    });
+  };
+
+  const updateReminders = (changes: Partial<ReminderDraft>) => {
+    updateDraft({ reminders: { ...draft.reminders, ...changes } });
+  };
+
+  const toggleChannel = (channel: ReminderChannel) => {
+    updateReminders({
+      channels: draft.reminders.channels.includes(channel)
+        ? draft.reminders.channels.filter((c) => c !== channel)
+        : [...draft.reminders.channels, channel],
+    });
+  };
+
+  const updatePaymentMethod = (index: number, changes: Partial<PaymentMethodRow>) => {
+    updateDraft({
+      paymentMethods: draft.paymentMethods.map((row, i) => (i === index ? { ...row, ...changes } : row)),
+    });
+  };
+
+  const handleSave = async () => {
+    const draftIssues = validateDraft(draft, isNew, accountKeys);
+    setIssues(draftIssues);
+    if (draftIssues.length > 0) {
+      toast.error('Revisa los errores antes de guardar.');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const saved = await saveAccountSettings(draft.key, fromDraft(draft));
+      setConfigs((current) => ({ ...current, [draft.key]: saved }));
+      setSelectedKey(draft.key);
+      toast.success(`Cuenta "${saved.name}" guardada.`);
+    } catch (err) {
+      console.error('Error saving account settings:', err);
+      const message = err instanceof Error ? err.message : 'Error al guardar la cuenta.';
+      setIssues(message.split('\n'));
+      toast.error('Error al guardar la cuenta.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // The YNAB schedule card saves on its own; keep the form in step without losing unsaved edits
+  const handleScheduleChange = (config: AccountConfig) => {
+    if (!selectedKey) return;
+    setConfigs((current) => ({ ...current, [selectedKey]: config }));
+    updateDraft({ ynabSchedule: config.ynabSchedule });
+  };
+
+  const handleDelete = async () => {
+    if (!selectedKey || !window.confirm(`¿Eliminar la cuenta "${configs[selectedKey].name}"? Esto no borra nada en YNAB.`)) {
+      return;
+    }
+
+    try {
+      await deleteAccountSettings(selectedKey);
+      setConfigs((current) => {
+        const next = { ...current };
+        delete next[selectedKey];
+        return next;
+      });
+      selectAccount(null);
+      toast.success('Cuenta eliminada.');
+    } catch (err) {
+      console.error('Error deleting account settings:', err);
+      toast.error('Error al eliminar la cuenta.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-gray-900 text-white min-h-screen flex flex-col items-center justify-center font-sans p-4">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-400 mx-auto mb-4"></div>
+          <p className="text-xl text-gray-300">Loading settings...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-gray-900 text-white min-h-screen flex flex-col items-center justify-center font-sans p-4">
+        <div className="text-center max-w-md">
+          <div className="text-red-400 text-6xl mb-4">⚠️</div>
+          <h2 className="text-2xl font-bold text-red-400 mb-4">Error Loading Settings</h2>
+          <p className="text-gray-300 mb-6 whitespace-pre-line">{error}</p>
+          <button
+            onClick={() => window.location.reload()}
+            className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-900 text-white min-h-screen flex flex-col items-center font-sans p-4">
+      <Toaster position="top-right" toastOptions={{ duration: 3000 }} />
+
+      <div className="w-full max-w-2xl mx-auto space-y-6">
+        <header className="flex items-center justify-between">
+          <Link href="/" className="text-gray-400 hover:text-white flex items-center space-x-2">
+            <ArrowLeft size={20} />
+            <span>Volver</span>
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-200">Configuración de Cuentas</h1>
+          <div className="w-16" />
+        </header>
+
+        {/* --- Account list --- */}
+        <div className="bg-gray-800 rounded-3xl shadow-xl p-6 flex flex-wrap gap-2">
+          {accountKeys.map((key) => (
+            <button
+              key={key}
+              onClick={() => selectAccount(key)}
+              className={`px-4 py-2 rounded-xl font-medium ${selectedKey === key ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            >
+              {configs[key].name}
+            </button>
+          ))}
+          <button
+            onClick={() => selectAccount(null)}
+            className={`px-4 py-2 rounded-xl font-medium flex items-center space-x-1 ${isNew ? 'bg-green-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+          >
+            <Plus size={16} />
+            <span>Nueva cuenta</span>
+          </button>
+        </div>
+
+        {/* --- Account form --- */}
+        <div className="bg-gray-800 rounded-3xl shadow-xl p-6 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Clave (usada en ?account=)</label>
+              <input
+                value={draft.key}
+                onChange={(e) => updateDraft({ key: e.target.value.toLowerCase() })}
+                disabled={!isNew}
+                placeholder="ej: taxi"
+                className={`${inputClass} disabled:opacity-60`}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Nombre</label>
+              <input
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                placeholder="ej: Taxi Soluto 2020"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Presupuesto de YNAB</label>
+            <select
+              value={draft.budgetId}
+              onChange={(e) => updateDraft({ budgetId: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">{budgets.length === 1 ? `Único presupuesto (${budgets[0].name})` : 'Selecciona un presupuesto…'}</option>
+              {budgets.map((budget) => (
+                <option key={budget.id} value={budget.id}>{budget.name}</option>
+              ))}
+            </select>
+            {accountsError && <p className="text-xs text-red-400 mt-1">{accountsError}</p>}
+          </div>
+
+          <div>
+            <label className={labelClass}>Cuenta de deuda en YNAB</label>
+            <YnabAccountSelect
+              value={draft.accountId}
+              onChange={(accountId) => updateDraft({ accountId })}
+              accounts={ynabAccounts}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass}>Pago por día</label>
+              <input
+                type="number" min="0" step="0.01"
+                value={draft.paymentQuantity}
+                onChange={(e) => updateDraft({ paymentQuantity: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Mínimo diario</label>
+              <input
+                type="number" min="0" step="0.01"
+                value={draft.minDailyPayment}
+                onChange={(e) => updateDraft({ minDailyPayment: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Máximo diario</label>
+              <input
+                type="number" min="0" step="0.01"
+                value={draft.maxDailyPayment}
+                onChange={(e) => updateDraft({ maxDailyPayment: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {/* --- Schedule --- */}
+          <div className="space-y-3">
+            <div>
+              <label className={labelClass}>Días de pago</label>
+              <select
+                value={draft.scheduleType}
+                onChange={(e) => updateDraft({ scheduleType: e.target.value as ScheduleType })}
+                className={inputClass}
+              >
+                {SCHEDULE_TYPES.map((type) => (
+                  <option key={type} value={type}>{SCHEDULE_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+            {draft.scheduleType === 'weekdays' && (
+              <div className="flex flex-wrap gap-2">
+                {WEEKDAYS.map((label, day) => (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleWeekday(day)}
+                    className={`px-3 py-1 rounded-lg text-sm font-medium ${draft.paymentDays.includes(day) ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-400'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+            {draft.scheduleType === 'monthDays' && (
+              <div>
+                <input
+                  value={draft.monthDays}
+                  onChange={(e) => updateDraft({ monthDays: e.target.value })}
+                  placeholder="ej: 15, 30"
+                  className={inputClass}
+                />
+                <p className="text-xs text-gray-500 mt-1">Si el mes es más corto, el pago cae en su último día.</p>
+              </div>
+            )}
+            {draft.scheduleType === 'interval' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Cada cuántos días</label>
+                  <input
+                    type="number" min="1" step="1"
+                    value={draft.everyDays}
+                    onChange={(e) => updateDraft({ everyDays: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>A partir de</label>
+                  <input
+                    type="date"
+                    value={draft.anchorDate}
+                    onChange={(e) => updateDraft({ anchorDate: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+            )}
+
+            <label className={labelClass}>Feriados y vacaciones</label>
+            {draft.exclusions.map((row, index) => (
+              <div key={index} className="flex space-x-2">
+                <input
+                  type="date"
+                  value={row.from}
+                  onChange={(e) => updateExclusion(index, { from: e.target.value })}
+                  className={inputClass}
+                  aria-label="Desde"
+                />
+                <input
+                  type="date"
+                  value={row.to}
+                  onChange={(e) => updateExclusion(index, { to: e.target.value })}
+                  className={inputClass}
+                  aria-label="Hasta (opcional)"
+                />
+                <input
+                  value={row.reason}
+                  onChange={(e) => updateExclusion(index, { reason: e.target.value })}
+                  placeholder="ej: Carnaval"
+                  className={inputClass}
+                />
+                <button
+                  type="button"
+                  onClick={() => updateDraft({ exclusions: draft.exclusions.filter((_, i) => i !== index) })}
+                  className="p-2 text-gray-400 hover:text-red-400"
+                >
+                  <Trash2 size={18} />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => updateDraft({ exclusions: [...draft.exclusions, { from: '', to: '', reason: '' }] })}
+              className="text-sm text-blue-400 hover:text-blue-300 flex items-center space-x-1"
+            >
+              <Plus size={16} />
+              <span>Agregar feriado o vacaciones</span>
+            </button>
+          </div>
+
+          {/* --- Deadline --- */}
+          <div className="space-y-3">
+            <label className="flex items-center space-x-2 text-gray-300">
+              <input
+                type="checkbox"
+                checked={draft.hasDeadline}
+                onChange={(e) => updateDraft({ hasDeadline: e.target.checked })}
+              />
+              <span>Fecha límite</span>
+            </label>
+            {draft.hasDeadline && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 bg-gray-700/50 p-4 rounded-lg">
+                <div>
+                  <label className={labelClass}>Fecha final</label>
+                  <input
+                    type="date"
+                    value={draft.deadlineConfig.endDate}
+                    onChange={(e) => updateDraft({ deadlineConfig: { ...draft.deadlineConfig, endDate: e.target.value } })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Descripción</label>
+                  <input
+                    value={draft.deadlineConfig.description}
+                    onChange={(e) => updateDraft({ deadlineConfig: { ...draft.deadlineConfig, description: e.target.value } })}
+                    className={inputClass}
+                  />
+                </div>
+                <label className="flex items-center space-x-2 text-gray-300 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={draft.deadlineConfig.enabled}
+                    onChange={(e) => updateDraft({ deadlineConfig: { ...draft.deadlineConfig, enabled: e.target.checked } })}
+                  />
+                  <span>Activa</span>
+                </label>
+                <label className="flex items-center space-x-2 text-gray-300 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={draft.deadlineConfig.showDaysRemaining}
+                    onChange={(e) => updateDraft({ deadlineConfig: { ...draft.deadlineConfig, showDaysRemaining: e.target.checked } })}
+                  />
+                  <span>Mostrar días restantes</span>
+                </label>
+              </div>
+            )}
+          </div>
+
+          {/* --- Interest --- */}
+          <div className="space-y-3">
+            <label className="flex items-center space-x-2 text-gray-300">
+              <input
+                type="checkbox"
+                checked={draft.hasInterest}
+                onChange={(e) => updateDraft({ hasInterest: e.target.checked })}
+              />
+              <span>Préstamo con intereses</span>
+            </label>
+            {draft.hasInterest && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 bg-gray-700/50 p-4 rounded-lg">
+                <div>
+                  <label className={labelClass}>Tasa anual (%)</label>
+                  <input
+                    type="number" min="0" step="0.01"
+                    value={draft.interest.apr}
+                    onChange={(e) => updateDraft({ interest: { ...draft.interest, apr: e.target.value } })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Capitalización</label>
+                  <select
+                    value={draft.interest.compounding}
+                    onChange={(e) => updateDraft({ interest: { ...draft.interest, compounding: e.target.value as CompoundingPeriod } })}
+                    className={inputClass}
+                  >
+                    {COMPOUNDING_PERIODS.map((period) => (
+                      <option key={period} value={period}>{COMPOUNDING_LABELS[period]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Monto original</label>
+                  <input
+                    type="number" min="0" step="0.01"
+                    value={draft.interest.principal}
+                    onChange={(e) => updateDraft({ interest: { ...draft.interest, principal: e.target.value } })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Plazo (meses)</label>
+                  <input
+                    type="number" min="1" step="1"
+                    value={draft.interest.termMonths}
+                    onChange={(e) => updateDraft({ interest: { ...draft.interest, termMonths: e.target.value } })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Fecha de desembolso</label>
+                  <input
+                    type="date"
+                    value={draft.interest.startDate}
+                    onChange={(e) => updateDraft({ interest: { ...draft.interest, startDate: e.target.value } })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* --- Reminders --- */}
+          <div className="space-y-3">
+            <label className="flex items-center space-x-2 text-gray-300">
+              <input
+                type="checkbox"
+                checked={draft.hasReminders}
+                onChange={(e) => updateDraft({ hasReminders: e.target.checked })}
+              />
+              <span>Recordatorio de pago pendiente</span>
+            </label>
+            {draft.hasReminders && (
+              <div className="space-y-4 bg-gray-700/50 p-4 rounded-lg">
+                <div>
+                  <label className={labelClass}>Avisar si no hay pago registrado a las</label>
+                  <input
+                    type="time"
+                    value={draft.reminders.cutoffTime}
+                    onChange={(e) => updateReminders({ cutoffTime: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {REMINDER_CHANNELS.map((channel) => (
+                    <button
+                      key={channel}
+                      type="button"
+                      onClick={() => toggleChannel(channel)}
+                      className={`px-3 py-1 rounded-lg text-sm font-medium ${draft.reminders.channels.includes(channel) ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-400'}`}
+                    >
+                      {CHANNEL_LABELS[channel]}
+                    </button>
+                  ))}
+                </div>
+                <label className="flex items-center space-x-2 text-gray-300 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={draft.reminders.hasQuietHours}
+                    onChange={(e) => updateReminders({ hasQuietHours: e.target.checked })}
+                  />
+                  <span>Horas de silencio</span>
+                </label>
+                {draft.reminders.hasQuietHours && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className={labelClass}>Desde</label>
+                      <input
+                        type="time"
+                        value={draft.reminders.quietStart}
+                        onChange={(e) => updateReminders({ quietStart: e.target.value })}
+                        className={inputClass}
+                      />
+                    </div>
+                    <div>
+                      <label className={labelClass}>Hasta</label>
+                      <input
+                        type="time"
+                        value={draft.reminders.quietEnd}
+                        onChange={(e) => updateReminders({ quietEnd: e.target.value })}
+                        className={inputClass}
+                      />
+                    </div>
+                  </div>
+                )}
+                <label className="flex items-center space-x-2 text-gray-300 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={draft.reminders.escalate}
+                    onChange={(e) => updateReminders({ escalate: e.target.checked })}
+                  />
+                  <span>Insistir si la fecha límite está en riesgo</span>
+                </label>
+                {draft.reminders.escalate && (
+                  <div>
+                    <label className={labelClass}>Repetir cada (minutos)</label>
+                    <input
+                      type="number" min="5" step="5"
+                      value={draft.reminders.repeatMinutes}
+                      onChange={(e) => updateReminders({ repeatMinutes: e.target.value })}
+                      className={inputClass}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Solo mientras la proyección termine después de la fecha límite.</p>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* --- Payment methods --- */}
+          <div className="space-y-3">
+            <label className={labelClass}>Métodos de pago</label>
+            {draft.paymentMethods.map((row, index) => (
+              <div key={index} className="bg-gray-700/50 rounded-xl p-3 space-y-2">
+                <div className="flex space-x-2">
+                  <input
+                    value={row.method}
+                    onChange={(e) => updatePaymentMethod(index, { method: e.target.value })}
+                    placeholder="Nombre, ej: Yappy"
+                    className={inputClass}
+                  />
+                  <input
+                    value={row.label}
+                    onChange={(e) => updatePaymentMethod(index, { label: e.target.value })}
+                    placeholder="Texto del botón (opcional)"
+                    className={inputClass}
+                  />
+                  <select
+                    value={row.color}
+                    onChange={(e) => updatePaymentMethod(index, { color: e.target.value as PaymentMethodColor | '' })}
+                    className={`${inputClass} w-40`}
+                    aria-label="Color"
+                  >
+                    <option value="">Color automático</option>
+                    {PAYMENT_METHOD_COLORS.map((color) => <option key={color} value={color}>{COLOR_LABELS[color]}</option>)}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => updateDraft({ paymentMethods: draft.paymentMethods.filter((_, i) => i !== index) })}
+                    className="p-2 text-gray-400 hover:text-red-400"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                </div>
+                <label className="flex items-center space-x-2 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={row.hasAccount}
+                    onChange={(e) => updatePaymentMethod(index, { hasAccount: e.target.checked })}
+                  />
+                  <span>Transferir desde una cuenta de YNAB</span>
+                </label>
+                {row.hasAccount ? (
+                  <YnabAccountSelect
+                    value={row.accountId}
+                    onChange={(accountId) => updatePaymentMethod(index, { accountId })}
+                    accounts={ynabAccounts}
+                  />
+                ) : (
+                  <p className="text-xs text-gray-500">Sin cuenta: se registra como pago simple con el beneficiario &quot;Pago {row.method.trim() || '…'}&quot;.</p>
+                )}
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  <div>
+                    <label className={labelClass}>Mínimo por pago</label>
+                    <input
+                      type="number" min="0" step="0.01"
+                      value={row.minPayment}
+                      onChange={(e) => updatePaymentMethod(index, { minPayment: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Máximo por pago</label>
+                    <input
+                      type="number" min="0" step="0.01"
+                      value={row.maxPayment}
+                      onChange={(e) => updatePaymentMethod(index, { maxPayment: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Comisión fija</label>
+                    <input
+                      type="number" min="0" step="0.01"
+                      value={row.feeFixed}
+                      onChange={(e) => updatePaymentMethod(index, { feeFixed: e.target.value })}
+                      disabled={!row.hasAccount}
+                      className={`${inputClass} disabled:opacity-50`}
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Comisión %</label>
+                    <input
+                      type="number" min="0" max="100" step="0.01"
+                      value={row.feePercent}
+                      onChange={(e) => updatePaymentMethod(index, { feePercent: e.target.value })}
+                      disabled={!row.hasAccount}
+                      className={`${inputClass} disabled:opacity-50`}
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => updateDraft({ paymentMethods: [...draft.paymentMethods, { ...EMPTY_PAYMENT_METHOD }] })}
+              className="text-sm text-blue-400 hover:text-blue-300 flex items-center space-x-1"
+            >
+              <Plus size={16} />
+              <span>Agregar método de pago</span>
+            </button>
+          </div>
+
+          {issues.length > 0 && (
+            <ul className="bg-red-900/40 border border-red-700 rounded-lg p-4 text-sm text-red-200 space-y-1 list-disc list-inside">
+              {issues.map((issue) => <li key={issue}>{issue}</li>)}
+            </ul>
+          )}
+
+          <div className="flex space-x-4">
+            {!isNew && (
+              <button
+                onClick={handleDelete}
+                className="flex-1 bg-red-700 hover:bg-red-800 text-white font-bold py-3 px-4 rounded-xl transition-colors flex items-center justify-center space-x-2"
+              >
+                <Trash2 size={20} />
+                <span>Eliminar</span>
+              </button>
+            )}
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-500 text-white font-bold py-3 px-4 rounded-xl transition-colors flex items-center justify-center space-x-2"
+            >
+              <Save size={20} />
+              <span>{saving ? 'Guardando…' : 'Guardar'}</span>
+            </button>
+          </div>
+        </div>
+
+        {selectedKey && (
+          <YnabScheduleCard key={selectedKey} accountKey={selectedKey} config={configs[selectedKey]} onChange={handleScheduleChange} />
+        )}
+
+        <PushNotificationsCard />
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPage;
@@ -0,0 +1,110 @@
+import React, { useMemo, useState } from 'react';
+import dayjs from 'dayjs';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import type { AdherenceStats } from '../lib/analytics';
+
+type TotalsView = 'weekly' | 'monthly';
+
+const TOTALS_VIEWS: Record<TotalsView, string> = {
+  weekly: 'Semanal',
+  monthly: 'Mensual',
+};
+
+const StatTile = ({ label, value, detail }: { label: string; value: string; detail?: string }) => (
+  <div className="bg-gray-800 rounded-lg p-3 text-center">
+    <p className="text-xs text-gray-400">{label}</p>
+    <p className="text-xl font-bold text-gray-100">{value}</p>
+    {detail && <p className="text-xs text-gray-500">{detail}</p>}
+  </div>
+);
+
+// --- Disciplina de pago: rachas, días sin registro y totales ---
+const AdherencePanel = ({ stats, paymentQuantity, paymentDaysPerWeek }: {
+  stats: AdherenceStats;
+  paymentQuantity: number;
+  paymentDaysPerWeek: number;
+}) => {
+  const [view, setView] = useState<TotalsView>('weekly');
+
+  const chartData = useMemo(() => {
+    const totals = view === 'weekly' ? stats.weeklyTotals : stats.monthlyTotals;
+    return totals.map((period) => ({
+      ...period,
+      periodo: view === 'weekly'
+        ? dayjs(period.period).toDate().toLocaleDateString('es-PA', { month: 'short', day: 'numeric' })
+        : dayjs(period.period).toDate().toLocaleDateString('es-PA', { month: 'short', year: '2-digit' }),
+    }));
+  }, [stats, view]);
+
+  // What a full week of payments at the fixed amount adds up to
+  const weeklyTarget = paymentQuantity * paymentDaysPerWeek;
+
+  return (
+    <div className="bg-gray-700 p-4 rounded-lg space-y-4">
+      <h4 className="text-lg font-semibold text-gray-200 text-center">Disciplina de Pago</h4>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+        <StatTile label="Racha actual" value={`${stats.currentStreak} días`} />
+        <StatTile label="Racha más larga" value={`${stats.longestStreak} días`} />
+        <StatTile
+          label="Días pagados"
+          value={`${stats.paidDays}/${stats.paymentDaysTracked}`}
+          detail={stats.paymentDaysTracked > 0 ? `${Math.round((stats.paidDays / stats.paymentDaysTracked) * 100)}%` : undefined}
+        />
+        <StatTile label="Días sin registro" value={`${stats.missedDays.length}`} />
+        <StatTile
+          label="Pagos en blanco"
+          value={`${stats.blankCount}`}
+          detail={`${Math.round(stats.blankRate * 100)}% de los registros`}
+        />
+        <StatTile
+          label="Pago promedio"
+          value={`$${stats.averagePayment.toFixed(2)}`}
+          detail={paymentQuantity > 0 ? `${Math.round(stats.averageVsTarget * 100)}% del monto fijo` : undefined}
+        />
+      </div>
+
+      {stats.missedDays.length > 0 && (
+        <p className="text-xs text-gray-400">
+          Últimos días sin registro: {stats.missedDays.slice(0, 5).map((date) => dayjs(date).format('DD/MM')).join(', ')}
+        </p>
+      )}
+
+      <div className="flex justify-center space-x-2">
+        {(Object.keys(TOTALS_VIEWS) as TotalsView[]).map((option) => (
+          <button
+            key={option}
+            onClick={() => setView(option)}
+            className={`px-3 py-1 rounded-lg text-xs ${view === option ? 'bg-blue-600' : 'bg-gray-600 hover:bg-gray-500'}`}
+          >
+            {TOTALS_VIEWS[option]}
+          </button>
+        ))}
+      </div>
+
+      <div style={{ width: '100%', height: 220 }}>
+        <ResponsiveContainer>
+          <BarChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#4A5568" />
+            <XAxis dataKey="periodo" stroke="#A0AEC0" fontSize={10} />
+            <YAxis stroke="#A0AEC0" fontSize={10} tickFormatter={(value) => `$${value}`} />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#2D3748', border: 'none', borderRadius: '0.5rem' }}
+              labelStyle={{ color: '#E2E8F0' }}
+              formatter={(value: number) => [`$${value.toFixed(2)}`, 'Pagado']}
+            />
+            {view === 'weekly' && weeklyTarget > 0 && (
+              <ReferenceLine y={weeklyTarget} stroke="#F6AD55" strokeDasharray="4 4" />
+            )}
+            <Bar dataKey="total" fill="#4FD1C5" radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+      {view === 'weekly' && weeklyTarget > 0 && (
+        <p className="text-xs text-gray-500 text-center">La línea marca una semana completa al monto fijo (${weeklyTarget.toFixed(2)}).</p>
+      )}
+    </div>
+  );
+};
+
+export default AdherencePanel;
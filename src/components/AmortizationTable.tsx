@@ -0,0 +1,76 @@
+import React, { useMemo } from 'react';
+import dayjs from 'dayjs';
+import { actualBalanceOn, buildAmortizationSchedule, monthlyInstallment, scheduledBalanceOn } from '../lib/amortization';
+import type { BalancePoint, InterestConfig } from '../lib/debt';
+
+const COMPOUNDING_LABELS = {
+  daily: 'diaria',
+  monthly: 'mensual',
+  annually: 'anual',
+} as const;
+
+// --- Tabla de amortización: saldo teórico vs. saldo real en YNAB ---
+const AmortizationTable = ({ interest, balanceHistory, currentBalance }: {
+  interest: InterestConfig;
+  balanceHistory: BalancePoint[];
+  currentBalance: number;
+}) => {
+  const schedule = useMemo(() => buildAmortizationSchedule(interest), [interest]);
+  const today = dayjs().format('YYYY-MM-DD');
+  const expectedToday = scheduledBalanceOn(interest, schedule, today);
+  const difference = currentBalance - expectedToday;
+  const totalInterest = schedule.reduce((sum, row) => sum + row.interest, 0);
+
+  return (
+    <div className="bg-gray-700 p-4 rounded-lg space-y-4">
+      <h4 className="text-lg font-semibold text-gray-200 text-center">Amortización</h4>
+
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <div className="text-gray-400">Tasa anual</div>
+        <div className="text-right">{interest.apr}% (capitalización {COMPOUNDING_LABELS[interest.compounding]})</div>
+        <div className="text-gray-400">Cuota mensual</div>
+        <div className="text-right">${monthlyInstallment(interest).toFixed(2)} × {interest.termMonths} meses</div>
+        <div className="text-gray-400">Interés total del préstamo</div>
+        <div className="text-right">${totalInterest.toFixed(2)}</div>
+        <div className="text-gray-400">Saldo teórico hoy</div>
+        <div className="text-right">${expectedToday.toFixed(2)}</div>
+        <div className="text-gray-400">Saldo real hoy</div>
+        <div className={`text-right font-semibold ${difference > 0.005 ? 'text-red-400' : 'text-green-400'}`}>
+          ${currentBalance.toFixed(2)} ({difference > 0 ? '+' : ''}{difference.toFixed(2)})
+        </div>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto">
+        <table className="w-full text-xs">
+          <thead className="text-gray-400 sticky top-0 bg-gray-700">
+            <tr>
+              <th className="text-left py-1">Fecha</th>
+              <th className="text-right">Interés</th>
+              <th className="text-right">Capital</th>
+              <th className="text-right">Teórico</th>
+              <th className="text-right">Real</th>
+            </tr>
+          </thead>
+          <tbody>
+            {schedule.map((row) => {
+              const actual = row.date <= today ? actualBalanceOn(balanceHistory, row.date) : null;
+              return (
+                <tr key={row.period} className={`border-t border-gray-600 ${row.date <= today ? 'text-gray-300' : 'text-gray-500'}`}>
+                  <td className="py-1">{dayjs(row.date).format('MMM YYYY')}</td>
+                  <td className="text-right">${row.interest.toFixed(2)}</td>
+                  <td className="text-right">${row.principal.toFixed(2)}</td>
+                  <td className="text-right">${row.balance.toFixed(2)}</td>
+                  <td className={`text-right ${actual !== null && actual > row.balance + 0.005 ? 'text-red-400' : ''}`}>
+                    {actual !== null ? `$${actual.toFixed(2)}` : '—'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AmortizationTable;
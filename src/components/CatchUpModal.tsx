@@ -0,0 +1,164 @@
+'use client';
+
+import React, { useState } from 'react';
+import dayjs from 'dayjs';
+import type { PaymentRequest } from '../lib/api';
+import { findPaymentMethod, validateMethodAmount, validatePaymentAmount, type PaymentConstants, type PaymentMethodConfig } from '../lib/debt';
+import Modal from './Modal';
+import { methodLabel } from './PaymentMethodButtons';
+
+type CatchUpMode = 'payment' | 'blank' | 'skip';
+
+type PaymentLimits = Pick<PaymentConstants, 'paymentQuantity' | 'minDailyPayment' | 'maxDailyPayment'>;
+
+interface CatchUpEntry {
+  date: string;
+  mode: CatchUpMode;
+  amountInput: string;
+  method: string;
+  reason: string;
+  // Fixed when the modal opens, so submitting twice can't duplicate a day
+  nonce: string;
+}
+
+const MODE_LABELS: Record<CatchUpMode, string> = {
+  payment: 'Pago',
+  blank: 'En blanco',
+  skip: 'Omitir',
+};
+
+function entryError(entry: CatchUpEntry, constants: PaymentLimits, methods: PaymentMethodConfig[]): string | null {
+  if (entry.mode === 'payment') {
+    const method = findPaymentMethod(methods, entry.method);
+    if (!method) {
+      return 'Esta cuenta no tiene métodos de pago. Configúralos en Ajustes.';
+    }
+    const amount = Number(entry.amountInput);
+    return validatePaymentAmount(amount, constants, 0) ?? validateMethodAmount(amount, method);
+  }
+  if (entry.mode === 'blank' && !entry.reason.trim()) {
+    return 'Debes proporcionar una razón.';
+  }
+  return null;
+}
+
+// --- Modal para registrar de una vez los días de pago sin registro ---
+// Mounted only while open, so the form is built from the missed days at that moment
+const CatchUpModal = ({ missedDays, constants, methods, onClose, onSubmit }: {
+  missedDays: string[];
+  constants: PaymentLimits;
+  methods: PaymentMethodConfig[];
+  onClose: () => void;
+  onSubmit: (payments: PaymentRequest[]) => Promise<void>;
+}) => {
+  const [entries, setEntries] = useState<CatchUpEntry[]>(() => missedDays.map((date) => ({
+    date,
+    mode: 'payment',
+    amountInput: constants.paymentQuantity.toFixed(2),
+    method: methods[0]?.name ?? '',
+    reason: '',
+    nonce: crypto.randomUUID(),
+  })));
+  const [submitting, setSubmitting] = useState(false);
+
+  const updateEntry = (date: string, changes: Partial<CatchUpEntry>) => {
+    setEntries((current) => current.map((entry) => (entry.date === date ? { ...entry, ...changes } : entry)));
+  };
+
+  const hasErrors = entries.some((entry) => entryError(entry, constants, methods) !== null);
+  const toRegister = entries.filter((entry) => entry.mode !== 'skip');
+
+  const handleSubmit = async () => {
+    const payments = toRegister.map((entry): PaymentRequest => entry.mode === 'payment'
+      ? { kind: 'payment', method: entry.method, amount: Number(entry.amountInput), date: entry.date, nonce: entry.nonce }
+      : { kind: 'blank', reason: entry.reason.trim(), date: entry.date, nonce: entry.nonce });
+
+    try {
+      setSubmitting(true);
+      await onSubmit(payments);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title="Ponerse al Día">
+      <div className="space-y-4 text-white">
+        <p className="text-gray-300">
+          Estos días de pago no tienen ningún registro. Indica qué pasó en cada uno.
+        </p>
+
+        {entries.map((entry) => {
+          const error = entryError(entry, constants, methods);
+          return (
+            <div key={entry.date} className="bg-gray-700 rounded-lg p-3 space-y-2">
+              <div className="flex justify-between items-center">
+                <span className="font-semibold">{dayjs(entry.date).format('ddd, DD MMM YYYY')}</span>
+                <div className="flex space-x-1">
+                  {(Object.keys(MODE_LABELS) as CatchUpMode[]).map((mode) => (
+                    <button
+                      key={mode}
+                      onClick={() => updateEntry(entry.date, { mode })}
+                      className={`px-2 py-1 rounded-lg text-xs ${entry.mode === mode ? 'bg-blue-600' : 'bg-gray-600 hover:bg-gray-500'}`}
+                    >
+                      {MODE_LABELS[mode]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {entry.mode === 'payment' && (
+                <div className="flex space-x-2">
+                  <input
+                    type="number" inputMode="decimal" min="0" step="0.01"
+                    value={entry.amountInput}
+                    onChange={(e) => updateEntry(entry.date, { amountInput: e.target.value })}
+                    className="flex-1 p-2 bg-gray-800 border border-gray-600 rounded-lg text-white"
+                    aria-label="Monto"
+                  />
+                  <select
+                    value={entry.method}
+                    onChange={(e) => updateEntry(entry.date, { method: e.target.value })}
+                    className="p-2 bg-gray-800 border border-gray-600 rounded-lg text-white"
+                    aria-label="Método de pago"
+                  >
+                    {methods.map((method) => <option key={method.name} value={method.name}>{methodLabel(method)}</option>)}
+                  </select>
+                </div>
+              )}
+              {entry.mode === 'blank' && (
+                <input
+                  type="text"
+                  value={entry.reason}
+                  onChange={(e) => updateEntry(entry.date, { reason: e.target.value })}
+                  placeholder="Razón del pago en blanco"
+                  maxLength={200}
+                  className="w-full p-2 bg-gray-800 border border-gray-600 rounded-lg text-white placeholder-gray-400"
+                />
+              )}
+              {error && <p className="text-xs text-red-400">{error}</p>}
+            </div>
+          );
+        })}
+
+        <div className="flex space-x-4">
+          <button
+            onClick={onClose}
+            className="flex-1 bg-gray-600 hover:bg-gray-700 text-white font-bold py-3 px-4 rounded-xl transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={submitting || hasErrors || toRegister.length === 0}
+            className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-xl transition-colors"
+          >
+            Registrar {toRegister.length} día(s)
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default CatchUpModal;
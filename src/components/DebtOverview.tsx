@@ -0,0 +1,283 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Calculator, ChevronRight, DollarSign, Download, FileCheck, Settings } from 'lucide-react';
+import toast, { Toaster } from 'react-hot-toast';
+import dayjs from 'dayjs';
+import { fetchAccounts } from '../lib/api';
+import { submitOrQueuePayment, toPendingHistory, usePaymentQueue, type QueuedPayment } from '../lib/paymentQueue';
+import { calculatePaymentDaysRemaining, findPaymentMethod, getDebtStatus, getPaymentSchedule, getTotalPaidOn, madePaymentOn, validateMethodAmount, validatePaymentAmount, isAccountAvailable, type AccountOverview, type AccountOverviewEntry, type UnavailableAccount } from '../lib/debt';
+import Modal from './Modal';
+import PaymentMethodButtons, { methodLabel } from './PaymentMethodButtons';
+import SecondPaymentWarning from './SecondPaymentWarning';
+import ExportModal from './ExportModal';
+
+const formatCurrency = (amount: number) =>
+  `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// --- Tarjeta de una deuda ---
+const DebtCard = ({ account, queued, onRegisterPayment }: {
+  account: AccountOverview;
+  queued: QueuedPayment[];
+  onRegisterPayment: () => void;
+}) => {
+  const history = [...toPendingHistory(queued, account.balance), ...account.recentPayments];
+  const schedule = getPaymentSchedule(account.constants);
+  const status = getDebtStatus(schedule, history);
+  const deadline = account.deadlineConfig?.enabled ? account.deadlineConfig : null;
+  const paymentDaysRemaining = deadline
+    ? calculatePaymentDaysRemaining(deadline.endDate, schedule, history)
+    : null;
+
+  return (
+    <div className="bg-gray-800 rounded-3xl shadow-xl p-6 space-y-4">
+      <Link href={`/?account=${encodeURIComponent(account.key)}`} className="flex justify-between items-start group">
+        <div>
+          <h2 className="text-xl font-bold text-gray-200 group-hover:text-white">{account.name}</h2>
+          <p className={`text-sm font-semibold ${status.color}`}>{status.text}</p>
+          {queued.length > 0 && (
+            <p className="text-xs text-gray-400">{queued.length} pago(s) pendiente(s) de sincronizar</p>
+          )}
+        </div>
+        <ChevronRight className="text-gray-500 group-hover:text-white" size={24} />
+      </Link>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <p className="text-sm text-gray-400">Cantidad Restante</p>
+          <p className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-teal-300">
+            {formatCurrency(account.balance)}
+          </p>
+        </div>
+        {deadline && (
+          <div>
+            <p className="text-sm text-gray-400">{deadline.description || 'Días de pago restantes'}</p>
+            <p className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-orange-400 to-red-400">
+              {paymentDaysRemaining}
+            </p>
+            <p className="text-xs text-gray-500">Límite: {dayjs(deadline.endDate).format('DD/MM/YYYY')}</p>
+          </div>
+        )}
+      </div>
+
+      <button
+        onClick={onRegisterPayment}
+        className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-xl transition-colors flex items-center justify-center space-x-2"
+      >
+        <DollarSign size={18}/>
+        <span>Registrar {formatCurrency(account.constants.paymentQuantity)}</span>
+      </button>
+    </div>
+  );
+};
+
+// --- Tarjeta de una deuda que no se pudo cargar ---
+const UnavailableCard = ({ account }: { account: UnavailableAccount }) => (
+  <div className="bg-gray-800 rounded-3xl shadow-xl p-6 space-y-2">
+    <div className="flex justify-between items-start">
+      <h2 className="text-xl font-bold text-gray-200">{account.name}</h2>
+      <Link href="/settings" className="p-1 text-gray-500 hover:text-white" title="Configuración">
+        <Settings size={20} />
+      </Link>
+    </div>
+    <p className="text-sm font-semibold text-red-400">No disponible</p>
+    <p className="text-xs text-gray-400 whitespace-pre-line">{account.error}</p>
+  </div>
+);
+
+// --- Vista general de todas las deudas ---
+const DebtOverview = () => {
+  const [accounts, setAccounts] = useState<AccountOverviewEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [payingAccount, setPayingAccount] = useState<AccountOverview | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  // One nonce per opened payment form, so a double tap or a retry can't create a second transaction
+  const [paymentNonce, setPaymentNonce] = useState('');
+  const [confirmSecondPayment, setConfirmSecondPayment] = useState(false);
+  const [isExportOpen, setExportOpen] = useState(false);
+
+  const loadAccounts = async () => {
+    try {
+      setError(null);
+      setAccounts(await fetchAccounts());
+    } catch (err) {
+      console.error('Error loading accounts:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load accounts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadAccounts();
+  }, []);
+
+  // Reload once payments registered offline reach YNAB
+  const queuedPayments = usePaymentQueue(undefined, (result) => {
+    if (result.synced.length > 0) {
+      toast.success(`${result.synced.length} pago(s) pendiente(s) sincronizado(s) con YNAB.`);
+    }
+    for (const { item, error } of result.rejected) {
+      toast.error(`YNAB rechazó el pago pendiente del ${dayjs(item.payment.date).format('DD/MM/YYYY')}: ${error}`);
+    }
+    loadAccounts();
+  });
+  const queuedFor = (accountKey: string) => queuedPayments.filter((item) => item.accountKey === accountKey);
+  const historyOf = (account: AccountOverview) => [
+    ...toPendingHistory(queuedFor(account.key), account.balance),
+    ...account.recentPayments,
+  ];
+
+  const openPayment = (account: AccountOverview) => {
+    setPaymentNonce(crypto.randomUUID());
+    setConfirmSecondPayment(false);
+    setPayingAccount(account);
+  };
+
+  const handleRegisterPayment = async (method: string) => {
+    if (!payingAccount) return;
+    const amount = payingAccount.constants.paymentQuantity;
+
+    // Same daily bounds as the detail page, checked before anything is sent to YNAB
+    const paidToday = getTotalPaidOn(historyOf(payingAccount), dayjs().format('YYYY-MM-DD'));
+    const paymentMethod = findPaymentMethod(payingAccount.paymentMethods, method);
+    const rejection = validatePaymentAmount(amount, payingAccount.constants, paidToday)
+      ?? (paymentMethod ? validateMethodAmount(amount, paymentMethod) : null);
+    if (rejection) {
+      toast.error(rejection);
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const outcome = await submitOrQueuePayment(payingAccount.key, { kind: 'payment', method, amount, nonce: paymentNonce });
+      if (outcome === 'queued') {
+        toast(`Sin conexión con YNAB: el pago de ${formatCurrency(amount)} quedó pendiente y se sincronizará automáticamente.`);
+        setPayingAccount(null);
+        return;
+      }
+      if (outcome === 'duplicate') {
+        toast.error(`Este pago ya estaba registrado en ${payingAccount.name}.`);
+        setPayingAccount(null);
+        await loadAccounts();
+        return;
+      }
+      toast.success(`Pago de ${formatCurrency(amount)} registrado en ${payingAccount.name} con ${paymentMethod ? methodLabel(paymentMethod) : method}.`);
+      setPayingAccount(null);
+      await loadAccounts();
+    } catch (err) {
+      console.error('Error creating payment:', err);
+      toast.error(err instanceof Error ? err.message : 'Error al registrar el pago en YNAB. Inténtalo de nuevo.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-gray-900 text-white min-h-screen flex flex-col items-center justify-center font-sans p-4">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-400 mx-auto mb-4"></div>
+          <p className="text-xl text-gray-300">Loading accounts...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-gray-900 text-white min-h-screen flex flex-col items-center justify-center font-sans p-4">
+        <div className="text-center max-w-md">
+          <div className="text-red-400 text-6xl mb-4">⚠️</div>
+          <h2 className="text-2xl font-bold text-red-400 mb-4">Error Loading Data</h2>
+          <p className="text-gray-300 mb-6 whitespace-pre-line">{error}</p>
+          <button
+            onClick={() => window.location.reload()}
+            className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // Unavailable accounts have no balance to add, so the total says it is missing them
+  const available = accounts.filter(isAccountAvailable);
+  const totalDebt = available.reduce((sum, account) => sum + account.balance, 0);
+  // A blank payment also counts as today's entry
+  const payingAlreadyPaidToday = payingAccount !== null && madePaymentOn(historyOf(payingAccount), dayjs().format('YYYY-MM-DD'));
+
+  return (
+    <div className="bg-gray-900 text-white min-h-screen flex flex-col items-center font-sans p-4">
+      <Toaster position="top-right" toastOptions={{ duration: 3000 }} />
+
+      <div className="w-full max-w-3xl mx-auto space-y-6">
+        <header className="text-center relative">
+          <Link href="/planner" className="absolute top-0 left-0 p-1 text-gray-500 hover:text-white" title="Planificador">
+            <Calculator size={20} />
+          </Link>
+          <Link href="/reconcile" className="absolute top-0 left-8 p-1 text-gray-500 hover:text-white" title="Conciliar estado de cuenta">
+            <FileCheck size={20} />
+          </Link>
+          <button onClick={() => setExportOpen(true)} className="absolute top-0 right-8 p-1 text-gray-500 hover:text-white" title="Exportar">
+            <Download size={20} />
+          </button>
+          <Link href="/settings" className="absolute top-0 right-0 p-1 text-gray-500 hover:text-white" title="Configuración">
+            <Settings size={20} />
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-200">Mis Deudas</h1>
+          <p className="text-gray-400">
+            Total: {formatCurrency(totalDebt)}
+            {available.length < accounts.length && ` (sin ${accounts.length - available.length} cuenta(s) no disponible(s))`}
+          </p>
+        </header>
+
+        {accounts.length === 0 ? (
+          <p className="text-gray-400 text-center py-8">
+            No hay cuentas configuradas. <Link href="/settings" className="text-blue-400 hover:underline">Agregar una cuenta</Link>
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {accounts.map((account) => (isAccountAvailable(account) ? (
+              <DebtCard
+                key={account.key}
+                account={account}
+                queued={queuedFor(account.key)}
+                onRegisterPayment={() => openPayment(account)}
+              />
+            ) : (
+              <UnavailableCard key={account.key} account={account} />
+            )))}
+          </div>
+        )}
+      </div>
+
+      <Modal isOpen={payingAccount !== null} onClose={() => setPayingAccount(null)} title={`Registrar Pago - ${payingAccount?.name ?? ''}`}>
+        <div className="space-y-6 text-white">
+          <div className="bg-gray-700 p-4 rounded-lg text-center">
+            <label className="text-sm text-gray-400 block">Monto a Pagar</label>
+            <div className="text-4xl font-bold text-blue-400">
+              {formatCurrency(payingAccount?.constants.paymentQuantity ?? 0)}
+            </div>
+          </div>
+          {payingAlreadyPaidToday && (
+            <SecondPaymentWarning confirmed={confirmSecondPayment} onConfirmedChange={setConfirmSecondPayment} />
+          )}
+          <PaymentMethodButtons
+            methods={payingAccount?.paymentMethods ?? []}
+            amount={payingAccount?.constants.paymentQuantity ?? 0}
+            onSelect={handleRegisterPayment}
+            disabled={submitting || (payingAlreadyPaidToday && !confirmSecondPayment)}
+          />
+        </div>
+      </Modal>
+
+      <ExportModal accountKey={null} isOpen={isExportOpen} onClose={() => setExportOpen(false)} />
+    </div>
+  );
+};
+
+export default DebtOverview;
@@ -0,0 +1,173 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import dayjs from 'dayjs';
+import type { PaymentUpdate } from '../lib/api';
+import { findPaymentMethod, validateMethodAmount, type PaymentHistoryItem, type PaymentMethodConfig } from '../lib/debt';
+import Modal from './Modal';
+import { methodLabel } from './PaymentMethodButtons';
+
+// Fields that differ from the registered payment
+function diffPayment(payment: PaymentHistoryItem, amount: number, date: string, memo: string, method: string): PaymentUpdate {
+  const update: PaymentUpdate = {};
+  if (payment.amount !== 0 && amount !== payment.amount) update.amount = amount;
+  if (date !== payment.date) update.date = date;
+  if (memo !== (payment.memo ?? '')) update.memo = memo;
+  if (payment.method && method !== payment.method) update.method = method;
+  return update;
+}
+
+// --- Modal para corregir un pago del historial ---
+const EditPaymentModal = ({ payment, methods, onClose, onSave }: {
+  payment: PaymentHistoryItem | null;
+  methods: PaymentMethodConfig[];
+  onClose: () => void;
+  onSave: (update: PaymentUpdate) => Promise<void>;
+}) => {
+  const [amountInput, setAmountInput] = useState('');
+  const [date, setDate] = useState('');
+  const [memo, setMemo] = useState('');
+  const [method, setMethod] = useState('');
+  const [confirming, setConfirming] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!payment) return;
+    setAmountInput(payment.amount.toFixed(2));
+    setDate(payment.date);
+    setMemo(payment.memo ?? '');
+    setMethod(payment.method ?? '');
+    setConfirming(false);
+  }, [payment]);
+
+  if (!payment) return null;
+
+  const isBlank = payment.amount === 0;
+  const amount = Number(amountInput);
+  const selectedMethod = findPaymentMethod(methods, method);
+  const amountError = isBlank ? null
+    : !(amount > 0) ? 'El monto debe ser mayor a $0.'
+    : selectedMethod ? validateMethodAmount(amount, selectedMethod) : null;
+  const dateError = !date || date > dayjs().format('YYYY-MM-DD') ? 'La fecha no puede estar en el futuro.' : null;
+  const memoError = isBlank && !memo.trim() ? 'Debes proporcionar una razón para el pago en blanco.' : null;
+  const update = diffPayment(payment, amount, date, memo, method);
+  const hasChanges = Object.keys(update).length > 0;
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      await onSave(update);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={isBlank ? 'Editar Pago en Blanco' : 'Editar Pago'}>
+      {confirming ? (
+        <div className="space-y-6 text-white">
+          <p className="text-gray-300">Se actualizará la transacción en YNAB con estos cambios:</p>
+          <ul className="bg-gray-700 rounded-lg p-4 space-y-1 text-sm">
+            {update.amount !== undefined && <li>Monto: ${payment.amount.toFixed(2)} → ${update.amount.toFixed(2)}</li>}
+            {update.date !== undefined && <li>Fecha: {dayjs(payment.date).format('DD/MM/YYYY')} → {dayjs(update.date).format('DD/MM/YYYY')}</li>}
+            {update.method !== undefined && <li>Método: {payment.method} → {update.method}</li>}
+            {update.memo !== undefined && <li>Nota: {update.memo || '(vacía)'}</li>}
+          </ul>
+          <div className="flex space-x-4">
+            <button
+              onClick={() => setConfirming(false)}
+              className="flex-1 bg-gray-600 hover:bg-gray-700 text-white font-bold py-3 px-4 rounded-xl transition-colors"
+            >
+              Volver
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-500 text-white font-bold py-3 px-4 rounded-xl transition-colors"
+            >
+              Confirmar
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4 text-white">
+          {!isBlank && (
+            <div>
+              <label htmlFor="edit-amount" className="text-sm text-gray-400 block mb-1">Monto</label>
+              <input
+                id="edit-amount"
+                type="number" inputMode="decimal" min="0" step="0.01"
+                value={amountInput}
+                onChange={(e) => setAmountInput(e.target.value)}
+                className="w-full p-2 bg-gray-700 border border-gray-600 rounded-lg text-white"
+              />
+              {amountError && <p className="text-xs text-red-400 mt-1">{amountError}</p>}
+            </div>
+          )}
+          <div>
+            <label htmlFor="edit-date" className="text-sm text-gray-400 block mb-1">Fecha</label>
+            <input
+              id="edit-date"
+              type="date"
+              max={dayjs().format('YYYY-MM-DD')}
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="w-full p-2 bg-gray-700 border border-gray-600 rounded-lg text-white"
+            />
+            {dateError && <p className="text-xs text-red-400 mt-1">{dateError}</p>}
+          </div>
+          {!isBlank && (
+            <div>
+              <label htmlFor="edit-method" className="text-sm text-gray-400 block mb-1">Método de pago</label>
+              <select
+                id="edit-method"
+                value={method}
+                onChange={(e) => setMethod(e.target.value)}
+                disabled={!payment.method}
+                className="w-full p-2 bg-gray-700 border border-gray-600 rounded-lg text-white disabled:text-gray-500"
+              >
+                {!payment.method && <option value="">No reconocido</option>}
+                {payment.method && !findPaymentMethod(methods, payment.method) && (
+                  <option value={payment.method}>{payment.method} (ya no configurado)</option>
+                )}
+                {methods.map((option) => <option key={option.name} value={option.name}>{methodLabel(option)}</option>)}
+              </select>
+              {!payment.method && (
+                <p className="text-xs text-gray-500 mt-1">Esta transacción no se registró desde la app; cambia el método en YNAB.</p>
+              )}
+            </div>
+          )}
+          <div>
+            <label htmlFor="edit-memo" className="text-sm text-gray-400 block mb-1">{isBlank ? 'Razón' : 'Nota'}</label>
+            <textarea
+              id="edit-memo"
+              value={memo}
+              onChange={(e) => setMemo(e.target.value)}
+              className="w-full p-2 bg-gray-700 border border-gray-600 rounded-lg text-white resize-none"
+              rows={3}
+              maxLength={200}
+            />
+            {memoError && <p className="text-xs text-red-400 mt-1">{memoError}</p>}
+          </div>
+          <div className="flex space-x-4">
+            <button
+              onClick={onClose}
+              className="flex-1 bg-gray-600 hover:bg-gray-700 text-white font-bold py-3 px-4 rounded-xl transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={() => setConfirming(true)}
+              disabled={!hasChanges || amountError !== null || dateError !== null || memoError !== null}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-xl transition-colors"
+            >
+              Guardar Cambios
+            </button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default EditPaymentModal;
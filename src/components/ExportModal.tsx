@@ -0,0 +1,107 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { exportUrl } from '../lib/api';
+import type { ExportFormat, ExportType } from '../lib/export';
+import Modal from './Modal';
+
+const TYPE_LABELS: Record<ExportType, string> = {
+  history: 'Historial de pagos',
+  schedule: 'Pagos proyectados',
+};
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+};
+
+// --- Modal para descargar el historial o la proyección ---
+// Without an account key the file covers every configured debt
+const ExportModal = ({ accountKey, isOpen, onClose }: {
+  accountKey: string | null;
+  isOpen: boolean;
+  onClose: () => void;
+}) => {
+  const [type, setType] = useState<ExportType>('history');
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const rangeError = from && to && from > to ? 'La fecha inicial no puede ser posterior a la final.' : null;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={accountKey ? 'Exportar Cuenta' : 'Exportar Todas las Deudas'}>
+      <div className="space-y-4 text-white">
+        <div className="flex space-x-2">
+          {(Object.keys(TYPE_LABELS) as ExportType[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setType(option)}
+              className={`flex-1 px-3 py-2 rounded-lg text-sm ${type === option ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+            >
+              {TYPE_LABELS[option]}
+            </button>
+          ))}
+        </div>
+        <div className="flex space-x-2">
+          {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setFormat(option)}
+              className={`flex-1 px-3 py-2 rounded-lg text-sm ${format === option ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+            >
+              {FORMAT_LABELS[option]}
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="export-from" className="text-sm text-gray-400 block mb-1">Desde</label>
+            <input
+              id="export-from"
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="w-full p-2 bg-gray-700 border border-gray-600 rounded-lg text-white"
+            />
+          </div>
+          <div>
+            <label htmlFor="export-to" className="text-sm text-gray-400 block mb-1">Hasta</label>
+            <input
+              id="export-to"
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="w-full p-2 bg-gray-700 border border-gray-600 rounded-lg text-white"
+            />
+          </div>
+        </div>
+        {rangeError && <p className="text-xs text-red-400">{rangeError}</p>}
+        <p className="text-xs text-gray-500">
+          {type === 'history'
+            ? 'Incluye fecha, monto, método, estado, nota, saldo restante y la razón de los pagos en blanco.'
+            : 'Incluye cada pago futuro al monto fijo, los intereses y el saldo restante.'}
+          {' '}Deja las fechas vacías para exportar todo.
+        </p>
+
+        {rangeError ? (
+          <button disabled className="w-full bg-gray-500 cursor-not-allowed text-white font-bold py-3 px-4 rounded-xl">
+            Descargar
+          </button>
+        ) : (
+          <a
+            href={exportUrl(accountKey, { type, format, from: from || undefined, to: to || undefined })}
+            download
+            className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 px-4 rounded-xl transition-colors flex items-center justify-center space-x-2"
+          >
+            <Download size={20} />
+            <span>Descargar</span>
+          </a>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default ExportModal;
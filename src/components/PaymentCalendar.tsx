@@ -0,0 +1,123 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import dayjs from 'dayjs';
+import Calendar from 'react-calendar';
+import 'react-calendar/dist/Calendar.css';
+import { Calendar as CalendarIcon } from 'lucide-react';
+import { getCalendarDayState, type CalendarDayState, type CalendarMonth } from '../lib/analytics';
+import { getExclusionOn, type DeadlineConfig, type PaymentHistoryItem, type PaymentSchedule } from '../lib/debt';
+
+const DAY_STATES: Record<CalendarDayState, { className: string; indicator: string | null; legend: string; swatch: string }> = {
+  paid: { className: 'payment-day', indicator: '✓', legend: 'Pago realizado', swatch: 'bg-green-500' },
+  blank: { className: 'blank-day', indicator: '○', legend: 'Pago en blanco', swatch: 'bg-orange-500' },
+  missed: { className: 'missed-day', indicator: '✕', legend: 'Día sin registro', swatch: 'bg-red-900' },
+  upcoming: { className: 'upcoming-day', indicator: null, legend: 'Pago programado', swatch: 'border-2 border-blue-400' },
+  excluded: { className: 'excluded-day', indicator: null, legend: 'Feriado o vacaciones', swatch: 'bg-purple-900' },
+  'non-payment': { className: 'non-payment-day', indicator: null, legend: 'Sin pago programado', swatch: 'bg-gray-600' },
+};
+
+// Hover text for a day, with the reason when it was a blank payment or a day off
+function dayTooltip(state: CalendarDayState, dayEntries: PaymentHistoryItem[], schedule: PaymentSchedule, date: string): string {
+  const entries = dayEntries.filter((entry) => !entry.charge);
+  switch (state) {
+    case 'paid':
+      return `Pagado: $${entries.reduce((sum, entry) => sum + entry.amount, 0).toFixed(2)}`;
+    case 'blank':
+      return `Pago en blanco: ${entries.map((entry) => entry.memo || 'sin razón').join(' · ')}`;
+    case 'excluded':
+      return `${DAY_STATES[state].legend}: ${getExclusionOn(schedule, date)?.reason || 'sin motivo'}`;
+    default:
+      return DAY_STATES[state].legend;
+  }
+}
+
+// --- Calendario mensual con el estado de cada día de pago ---
+const PaymentCalendar = ({ month, onMonthChange, calendarMonth, pendingEntries, schedule, deadlineConfig }: {
+  // YYYY-MM being shown
+  month: string;
+  onMonthChange: (month: string) => void;
+  // Entries of the shown month, null while they load
+  calendarMonth: CalendarMonth | null;
+  // Payments still waiting in the offline queue
+  pendingEntries: PaymentHistoryItem[];
+  schedule: PaymentSchedule;
+  deadlineConfig: DeadlineConfig | null;
+}) => {
+  const entries = useMemo(() => {
+    if (!calendarMonth || calendarMonth.month !== month) return [];
+    return [...pendingEntries.filter((entry) => entry.date.startsWith(`${month}-`)), ...calendarMonth.entries];
+  }, [calendarMonth, month, pendingEntries]);
+
+  const deadline = deadlineConfig?.enabled ? deadlineConfig.endDate : null;
+  const loading = !calendarMonth || calendarMonth.month !== month;
+
+  const dayInfo = (date: Date) => {
+    const dateString = dayjs(date).format('YYYY-MM-DD');
+    const onDate = entries.filter((entry) => entry.date === dateString);
+    const state = getCalendarDayState(dateString, schedule, onDate, calendarMonth?.trackingStart ?? null);
+    return { dateString, onDate, state };
+  };
+
+  return (
+    <div className="bg-gray-700 p-4 rounded-lg">
+      <h4 className="text-lg font-semibold text-gray-200 mb-4 flex items-center justify-center space-x-2">
+        <CalendarIcon size={20} className="text-green-400"/>
+        <span>Calendario de Pagos - {dayjs(`${month}-01`).format('MMMM YYYY')}</span>
+      </h4>
+      <div className={`calendar-container ${loading ? 'opacity-60' : ''}`}>
+        <Calendar
+          activeStartDate={dayjs(`${month}-01`).toDate()}
+          // Only month view, so every navigation lands on a month whose data can be loaded
+          minDetail="month"
+          onActiveStartDateChange={({ activeStartDate }) => {
+            if (activeStartDate) onMonthChange(dayjs(activeStartDate).format('YYYY-MM'));
+          }}
+          tileClassName={({ date, view }) => {
+            if (view !== 'month' || loading) return null;
+            const { dateString, state } = dayInfo(date);
+            return [DAY_STATES[state].className, dateString === deadline ? 'deadline-day' : null]
+              .filter(Boolean)
+              .join(' ');
+          }}
+          tileContent={({ date, view }) => {
+            if (view !== 'month' || loading) return null;
+            const { dateString, onDate, state } = dayInfo(date);
+            const title = dateString === deadline
+              ? `Fecha límite · ${dayTooltip(state, onDate, schedule, dateString)}`
+              : dayTooltip(state, onDate, schedule, dateString);
+            return (
+              <div className="tile-tooltip" title={title}>
+                {DAY_STATES[state].indicator && <span className="payment-indicator">{DAY_STATES[state].indicator}</span>}
+              </div>
+            );
+          }}
+        />
+      </div>
+      <div className="mt-4 text-sm text-gray-300">
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(DAY_STATES) as CalendarDayState[]).map((state) => (
+            <div key={state} className="flex items-center space-x-2">
+              <div className={`w-4 h-4 rounded ${DAY_STATES[state].swatch}`}></div>
+              <span>{DAY_STATES[state].legend}</span>
+            </div>
+          ))}
+          {deadline && (
+            <div className="flex items-center space-x-2">
+              <div className="w-4 h-4 rounded border-2 border-yellow-400"></div>
+              <span>Fecha límite</span>
+            </div>
+          )}
+        </div>
+        {deadline && (
+          <div className="mt-2 text-xs text-gray-400">
+            Fecha límite: {dayjs(deadline).format('DD/MM/YYYY')}
+          </div>
+        )}
+        <p className="mt-2 text-xs text-gray-500">Pasa el cursor sobre un día para ver el detalle.</p>
+      </div>
+    </div>
+  );
+};
+
+export default PaymentCalendar;
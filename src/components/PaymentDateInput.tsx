@@ -0,0 +1,19 @@
+import React from 'react';
+import dayjs from 'dayjs';
+
+// Day a payment is recorded for; defaults to today, earlier days log a late entry
+const PaymentDateInput = ({ id, value, onChange }: { id: string; value: string; onChange: (date: string) => void }) => (
+  <div>
+    <label htmlFor={id} className="text-sm text-gray-400 block mb-1">Fecha del pago</label>
+    <input
+      id={id}
+      type="date"
+      max={dayjs().format('YYYY-MM-DD')}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full p-2 bg-gray-700 border border-gray-600 rounded-lg text-white"
+    />
+  </div>
+);
+
+export default PaymentDateInput;
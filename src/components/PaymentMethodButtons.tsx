@@ -0,0 +1,68 @@
+import React from 'react';
+import Link from 'next/link';
+import { getPaymentMethodFee, PAYMENT_METHOD_COLORS, validateMethodAmount, type PaymentMethodColor, type PaymentMethodConfig } from '../lib/debt';
+
+// Full class names, so Tailwind keeps every color of the palette
+const COLOR_STYLES: Record<PaymentMethodColor, string> = {
+  purple: 'bg-purple-600 hover:bg-purple-700',
+  green: 'bg-green-600 hover:bg-green-700',
+  blue: 'bg-blue-600 hover:bg-blue-700',
+  orange: 'bg-orange-600 hover:bg-orange-700',
+  pink: 'bg-pink-600 hover:bg-pink-700',
+  teal: 'bg-teal-600 hover:bg-teal-700',
+  gray: 'bg-gray-600 hover:bg-gray-700',
+};
+
+// Methods without a color take the palette in order
+export function getMethodColor(method: PaymentMethodConfig, index: number): PaymentMethodColor {
+  return method.color ?? PAYMENT_METHOD_COLORS[index % PAYMENT_METHOD_COLORS.length];
+}
+
+export const methodLabel = (method: PaymentMethodConfig) => method.label || method.name;
+
+// --- Botones de método de pago ---
+// A method outside its own limits for `amount` is disabled and says why
+const PaymentMethodButtons = ({ methods, amount, onSelect, disabled }: {
+  methods: PaymentMethodConfig[];
+  amount: number;
+  onSelect: (method: string) => void;
+  disabled?: boolean;
+}) => {
+  if (methods.length === 0) {
+    return (
+      <p className="text-sm text-gray-400 text-center">
+        Esta cuenta no tiene métodos de pago.{' '}
+        <Link href="/settings" className="text-blue-400 hover:text-blue-300">Configúralos en Ajustes</Link>.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {methods.map((method, index) => {
+        const limitError = amount > 0 ? validateMethodAmount(amount, method) : null;
+        const fee = getPaymentMethodFee(method, amount);
+        return (
+          <div key={method.name} className="space-y-1">
+            <button
+              onClick={() => onSelect(method.name)}
+              disabled={disabled || limitError !== null}
+              className={`w-full ${COLOR_STYLES[getMethodColor(method, index)]} disabled:bg-gray-500 text-white font-bold py-3 px-4 rounded-lg transition-transform transform hover:scale-105`}
+            >
+              {methodLabel(method)}
+            </button>
+            <p className={`text-xs text-center ${limitError ? 'text-red-400' : 'text-gray-400'}`}>
+              {limitError
+                ?? [
+                  method.accountId ? null : 'Sin cuenta en YNAB',
+                  fee > 0 ? `+ $${fee.toFixed(2)} de comisión` : null,
+                ].filter(Boolean).join(' · ')}
+            </p>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PaymentMethodButtons;
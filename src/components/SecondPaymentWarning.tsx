@@ -0,0 +1,26 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import dayjs from 'dayjs';
+
+// Asks for an explicit confirmation before a second payment on the same day
+const SecondPaymentWarning = ({ confirmed, onConfirmedChange, date }: {
+  confirmed: boolean;
+  onConfirmedChange: (confirmed: boolean) => void;
+  date?: string;
+}) => (
+  <label className="flex items-start space-x-3 bg-yellow-900/40 border border-yellow-600 rounded-lg p-3 text-sm text-yellow-200 cursor-pointer">
+    <AlertTriangle size={18} className="text-yellow-400 flex-shrink-0 mt-0.5" />
+    <span className="flex-1">
+      Ya hay un pago registrado {!date || date === dayjs().format('YYYY-MM-DD') ? 'hoy' : `el ${dayjs(date).format('DD/MM/YYYY')}`}.
+      Confirma que quieres registrar otro.
+    </span>
+    <input
+      type="checkbox"
+      checked={confirmed}
+      onChange={(e) => onConfirmedChange(e.target.checked)}
+      className="mt-1"
+    />
+  </label>
+);
+
+export default SecondPaymentWarning;
@@ -0,0 +1,19 @@
+'use client';
+
+import { useEffect } from 'react';
+
+// Registers public/sw.js so the app can be installed and opened without a connection.
+// Skipped in development, where a cached shell would hide code changes.
+const ServiceWorkerRegistration = () => {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('Error registering service worker:', error);
+    });
+  }, []);
+
+  return null;
+};
+
+export default ServiceWorkerRegistration;
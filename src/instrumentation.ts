@@ -0,0 +1,8 @@
+// Runs once when the server starts
+export async function register() {
+  // The reminder scheduler needs Node (files, SMTP), not the edge runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.REMINDERS_DISABLED !== 'true') {
+    const { startReminderScheduler } = await import('./lib/reminders');
+    startReminderScheduler();
+  }
+}
@@ -0,0 +1,102 @@
+import dayjs from 'dayjs';
+import type { BalancePoint, InterestConfig } from './debt';
+
+export interface AmortizationRow {
+  period: number;
+  date: string;
+  payment: number;
+  interest: number;
+  principal: number;
+  balance: number;
+}
+
+export interface PaymentSplit {
+  interest: number;
+  principal: number;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Effective interest rate for one month under the configured compounding
+export function monthlyRate({ apr, compounding }: Pick<InterestConfig, 'apr' | 'compounding'>): number {
+  const annual = apr / 100;
+  switch (compounding) {
+    case 'daily':
+      return Math.pow(1 + annual / 365, 365 / 12) - 1;
+    case 'annually':
+      return Math.pow(1 + annual, 1 / 12) - 1;
+    default:
+      return annual / 12;
+  }
+}
+
+// Effective interest rate for one day, used when payments don't follow a monthly cadence
+export function dailyRate(interest: Pick<InterestConfig, 'apr' | 'compounding'>): number {
+  return Math.pow(1 + monthlyRate(interest), 12 / 365) - 1;
+}
+
+// Fixed monthly installment that pays the principal off over the term
+export function monthlyInstallment({ principal, termMonths, ...rate }: InterestConfig): number {
+  const r = monthlyRate(rate);
+  if (r === 0) {
+    return roundCents(principal / termMonths);
+  }
+  return roundCents((principal * r) / (1 - Math.pow(1 + r, -termMonths)));
+}
+
+// Split a payment into the interest accrued on the balance and what goes to principal
+export function splitPayment(balance: number, payment: number, periodRate: number): PaymentSplit {
+  const interest = roundCents(Math.max(0, balance) * periodRate);
+  const appliedToInterest = Math.min(interest, payment);
+  return {
+    interest: appliedToInterest,
+    principal: roundCents(payment - appliedToInterest),
+  };
+}
+
+// Month by month schedule of the original loan, starting one month after startDate
+export function buildAmortizationSchedule(interest: InterestConfig): AmortizationRow[] {
+  const rate = monthlyRate(interest);
+  const installment = monthlyInstallment(interest);
+  const start = dayjs(interest.startDate);
+  const rows: AmortizationRow[] = [];
+  let balance = interest.principal;
+
+  for (let period = 1; period <= interest.termMonths && balance > 0; period++) {
+    // The last installment only covers what is left
+    const payment = Math.min(installment, roundCents(balance * (1 + rate)));
+    const split = splitPayment(balance, payment, rate);
+    balance = roundCents(balance - split.principal);
+    rows.push({
+      period,
+      date: start.add(period, 'month').format('YYYY-MM-DD'),
+      payment,
+      interest: split.interest,
+      principal: split.principal,
+      balance,
+    });
+  }
+  return rows;
+}
+
+// Theoretical balance on a date: the principal before the first installment, then each row's balance
+export function scheduledBalanceOn(interest: InterestConfig, schedule: AmortizationRow[], date: string): number {
+  let balance = interest.principal;
+  for (const row of schedule) {
+    if (row.date > date) break;
+    balance = row.balance;
+  }
+  return balance;
+}
+
+// Real balance on a date from the balance history (oldest first), or null before the history starts
+export function actualBalanceOn(history: BalancePoint[], date: string): number | null {
+  let balance: number | null = null;
+  for (const point of history) {
+    if (point.date > date) break;
+    balance = point.balance;
+  }
+  return balance;
+}
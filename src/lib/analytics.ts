@@ -0,0 +1,159 @@
+import dayjs from 'dayjs';
+import { getExclusionOn, isPayment, isPaymentDay, type PaymentHistoryItem, type PaymentSchedule } from './debt';
+
+// How many weeks and months the totals charts cover
+const WEEKLY_PERIODS = 12;
+const MONTHLY_PERIODS = 12;
+
+export type PaymentDayState = 'paid' | 'blank' | 'missed';
+
+// What the payment calendar shows for a single day
+export type CalendarDayState = PaymentDayState | 'upcoming' | 'excluded' | 'non-payment';
+
+export interface CalendarMonth {
+  // YYYY-MM
+  month: string;
+  // Date of the account's first entry; scheduled days before it were never due
+  trackingStart: string | null;
+  entries: PaymentHistoryItem[];
+}
+
+export interface PeriodTotal {
+  // First day of the week (Sunday) or month, YYYY-MM-DD
+  period: string;
+  total: number;
+  payments: number;
+}
+
+export interface AdherenceStats {
+  // Payment days in a row with a real payment, up to the latest one that is due
+  currentStreak: number;
+  longestStreak: number;
+  // Payment days from the first entry until today
+  paymentDaysTracked: number;
+  paidDays: number;
+  // Payment days with no entry at all, newest first
+  missedDays: string[];
+  blankCount: number;
+  // Share of all entries that were blank payments, 0..1
+  blankRate: number;
+  averagePayment: number;
+  // averagePayment / paymentQuantity, 0 when there is no target
+  averageVsTarget: number;
+  weeklyTotals: PeriodTotal[];
+  monthlyTotals: PeriodTotal[];
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Totals per period for the last `count` periods, oldest first
+function totalsByPeriod(payments: PaymentHistoryItem[], unit: 'week' | 'month', count: number): PeriodTotal[] {
+  const current = dayjs().startOf(unit);
+  const totals = new Map<string, PeriodTotal>();
+  for (let i = count - 1; i >= 0; i--) {
+    const period = current.subtract(i, unit).format('YYYY-MM-DD');
+    totals.set(period, { period, total: 0, payments: 0 });
+  }
+
+  for (const payment of payments) {
+    const bucket = totals.get(dayjs(payment.date).startOf(unit).format('YYYY-MM-DD'));
+    if (bucket) {
+      bucket.total = roundCents(bucket.total + payment.amount);
+      bucket.payments++;
+    }
+  }
+  return Array.from(totals.values());
+}
+
+// State of every payment day from the first entry until today, oldest first.
+// Today only counts once something was recorded for it.
+export function getPaymentDayStates(
+  schedule: PaymentSchedule,
+  paymentHistory: PaymentHistoryItem[]
+): { date: string; state: PaymentDayState }[] {
+  const byDate = new Map<string, PaymentDayState>();
+  for (const entry of paymentHistory) {
+    if (entry.charge) continue;
+    if (isPayment(entry)) {
+      byDate.set(entry.date, 'paid');
+    } else if (!byDate.has(entry.date)) {
+      byDate.set(entry.date, 'blank');
+    }
+  }
+
+  const firstEntry = Array.from(byDate.keys()).sort()[0];
+  if (!firstEntry) return [];
+
+  const today = dayjs().format('YYYY-MM-DD');
+  const states: { date: string; state: PaymentDayState }[] = [];
+  for (let day = dayjs(firstEntry); day.format('YYYY-MM-DD') <= today; day = day.add(1, 'day')) {
+    const date = day.format('YYYY-MM-DD');
+    if (!isPaymentDay(schedule, day)) continue;
+    const state = byDate.get(date);
+    if (state) {
+      states.push({ date, state });
+    } else if (date !== today) {
+      states.push({ date, state: 'missed' });
+    }
+  }
+  return states;
+}
+
+// State of a calendar day given the entries recorded on it.
+// Today stays upcoming until something is recorded, like in getPaymentDayStates.
+export function getCalendarDayState(
+  date: string,
+  schedule: PaymentSchedule,
+  entries: PaymentHistoryItem[],
+  trackingStart: string | null
+): CalendarDayState {
+  const onDate = entries.filter((entry) => entry.date === date && !entry.charge);
+  if (onDate.some(isPayment)) return 'paid';
+  if (onDate.length > 0) return 'blank';
+
+  if (getExclusionOn(schedule, date)) return 'excluded';
+  if (!isPaymentDay(schedule, date)) return 'non-payment';
+  if (date >= dayjs().format('YYYY-MM-DD')) return 'upcoming';
+  return trackingStart !== null && date >= trackingStart ? 'missed' : 'non-payment';
+}
+
+// Adherence to the payment plan over the whole history.
+// Blank payments are recorded but still end a streak; only real payments extend it.
+export function computeAdherence(
+  schedule: PaymentSchedule,
+  paymentQuantity: number,
+  paymentHistory: PaymentHistoryItem[]
+): AdherenceStats {
+  const states = getPaymentDayStates(schedule, paymentHistory);
+
+  let longestStreak = 0;
+  let streak = 0;
+  for (const { state } of states) {
+    streak = state === 'paid' ? streak + 1 : 0;
+    longestStreak = Math.max(longestStreak, streak);
+  }
+
+  const payments = paymentHistory.filter(isPayment);
+  const blankCount = paymentHistory.filter((entry) => entry.amount === 0 && !entry.charge).length;
+  // Payments and blank payments, without charges
+  const entryCount = payments.length + blankCount;
+  const averagePayment = payments.length > 0
+    ? roundCents(payments.reduce((sum, entry) => sum + entry.amount, 0) / payments.length)
+    : 0;
+
+  return {
+    currentStreak: streak,
+    longestStreak,
+    paymentDaysTracked: states.length,
+    paidDays: states.filter(({ state }) => state === 'paid').length,
+    missedDays: states.filter(({ state }) => state === 'missed').map(({ date }) => date).reverse(),
+    blankCount,
+    blankRate: entryCount > 0 ? blankCount / entryCount : 0,
+    averagePayment,
+    averageVsTarget: paymentQuantity > 0 ? averagePayment / paymentQuantity : 0,
+    weeklyTotals: totalsByPeriod(payments, 'week', WEEKLY_PERIODS),
+    monthlyTotals: totalsByPeriod(payments, 'month', MONTHLY_PERIODS),
+  };
+}
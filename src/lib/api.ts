@@ -0,0 +1,190 @@
+import type { AdherenceStats, CalendarMonth } from './analytics';
+import type { ExportOptions } from './export';
+import type { ReconcileRequest, ReconciliationResult } from './reconcile';
+import type { AccountConfig, AccountOverviewEntry, AccountSummary, BalancePoint, BalanceRange, PaymentHistoryItem, YnabAccountOption, YnabBudgetOption } from './debt';
+
+// Body accepted by POST /api/accounts/[key]/payments. `date` defaults to today on the server.
+// `nonce` identifies one payment attempt: resending it never creates a second transaction.
+export type PaymentRequest =
+  | { kind: 'payment'; method: string; amount: number; nonce: string; date?: string; memo?: string }
+  | { kind: 'blank'; reason: string; nonce: string; date?: string };
+
+// Body accepted by PATCH /api/accounts/[key]/transactions/[id], only the fields being corrected
+export interface PaymentUpdate {
+  amount?: number;
+  date?: string;
+  memo?: string;
+  method?: string;
+}
+
+// Answer of POST /api/accounts/[key]/payments, `duplicate` when YNAB already had that attempt
+export interface PaymentResult {
+  duplicate: boolean;
+  transactionId: string | null;
+}
+
+// Answer of the scheduled-transactions routes: what changed in YNAB
+export interface ScheduleSyncResult {
+  created: number;
+  updated: number;
+  deleted: number;
+  unchanged: number;
+}
+
+// Error answered by an API route, keeping the status so callers can tell rejections from outages
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Browser-side client for the tracker API routes
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  const data = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new ApiError(response.status, data?.error || `Request failed with status ${response.status}`);
+  }
+  return data as T;
+}
+
+function accountUrl(accountKey: string) {
+  return `/api/accounts/${encodeURIComponent(accountKey)}`;
+}
+
+export function fetchAccounts() {
+  return request<AccountOverviewEntry[]>('/api/accounts');
+}
+
+export function fetchAccount(accountKey: string) {
+  return request<AccountSummary>(accountUrl(accountKey));
+}
+
+export function fetchPaymentHistory(accountKey: string) {
+  return request<PaymentHistoryItem[]>(`${accountUrl(accountKey)}/transactions`);
+}
+
+export function fetchCalendarMonth(accountKey: string, month: string) {
+  return request<CalendarMonth>(`${accountUrl(accountKey)}/calendar?month=${month}`);
+}
+
+export function updatePayment(accountKey: string, transactionId: string, update: PaymentUpdate) {
+  return request<null>(`${accountUrl(accountKey)}/transactions/${encodeURIComponent(transactionId)}`, {
+    method: 'PATCH',
+    body: JSON.stringify(update),
+  });
+}
+
+export function deletePayment(accountKey: string, transactionId: string) {
+  return request<null>(`${accountUrl(accountKey)}/transactions/${encodeURIComponent(transactionId)}`, {
+    method: 'DELETE',
+  });
+}
+
+export function fetchAdherenceStats(accountKey: string) {
+  return request<AdherenceStats>(`${accountUrl(accountKey)}/analytics`);
+}
+
+export function fetchBalanceHistory(accountKey: string, range: BalanceRange) {
+  return request<BalancePoint[]>(`${accountUrl(accountKey)}/balance-history?range=${range}`);
+}
+
+export function reconcileStatement(accountKey: string, statement: ReconcileRequest) {
+  return request<ReconciliationResult>(`${accountUrl(accountKey)}/reconcile`, {
+    method: 'POST',
+    body: JSON.stringify(statement),
+  });
+}
+
+export function markPaymentsCleared(accountKey: string, transactionIds: string[]) {
+  return request<null>(`${accountUrl(accountKey)}/reconcile/clear`, {
+    method: 'POST',
+    body: JSON.stringify({ transactionIds }),
+  });
+}
+
+// Download link for one account's export, or for every account when no key is given
+export function exportUrl(accountKey: string | null, { format, type, from, to }: ExportOptions) {
+  const params = new URLSearchParams({ format, type });
+  if (from) params.set('from', from);
+  if (to) params.set('to', to);
+  return `${accountKey ? accountUrl(accountKey) : '/api'}/export?${params}`;
+}
+
+// Feed path for calendar apps; they need it as an absolute URL
+export function calendarFeedUrl(accountKey: string) {
+  return `/api/calendar/${encodeURIComponent(accountKey)}.ics`;
+}
+
+export function submitPayment(accountKey: string, payment: PaymentRequest) {
+  return request<PaymentResult>(`${accountUrl(accountKey)}/payments`, {
+    method: 'POST',
+    body: JSON.stringify(payment),
+  });
+}
+
+export function fetchAccountSettings() {
+  return request<Record<string, AccountConfig>>('/api/settings/accounts');
+}
+
+export function saveAccountSettings(accountKey: string, config: AccountConfig) {
+  return request<AccountConfig>(`/api/settings/accounts/${encodeURIComponent(accountKey)}`, {
+    method: 'PUT',
+    body: JSON.stringify(config),
+  });
+}
+
+export function deleteAccountSettings(accountKey: string) {
+  return request<null>(`/api/settings/accounts/${encodeURIComponent(accountKey)}`, {
+    method: 'DELETE',
+  });
+}
+
+export function fetchYnabBudgets() {
+  return request<YnabBudgetOption[]>('/api/ynab/budgets');
+}
+
+export function fetchYnabAccounts(budgetId?: string) {
+  const query = budgetId ? `?budgetId=${encodeURIComponent(budgetId)}` : '';
+  return request<YnabAccountOption[]>(`/api/ynab/accounts${query}`);
+}
+
+export function fetchPushPublicKey() {
+  return request<{ publicKey: string | null }>('/api/reminders/push');
+}
+
+export function savePushSubscription(subscription: PushSubscriptionJSON) {
+  return request<null>('/api/reminders/push', {
+    method: 'POST',
+    body: JSON.stringify(subscription),
+  });
+}
+
+export function deletePushSubscription(endpoint: string) {
+  return request<null>('/api/reminders/push', {
+    method: 'DELETE',
+    body: JSON.stringify({ endpoint }),
+  });
+}
+
+export function sendTestNotification() {
+  return request<{ delivered: string[]; errors: string[] }>('/api/reminders/test', { method: 'POST' });
+}
+
+export function syncYnabSchedule(accountKey: string, paymentMethod: string) {
+  return request<ScheduleSyncResult>(`${accountUrl(accountKey)}/scheduled-transactions`, {
+    method: 'POST',
+    body: JSON.stringify({ paymentMethod }),
+  });
+}
+
+export function removeYnabSchedule(accountKey: string) {
+  return request<ScheduleSyncResult>(`${accountUrl(accountKey)}/scheduled-transactions`, {
+    method: 'DELETE',
+  });
+}
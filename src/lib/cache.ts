@@ -0,0 +1,48 @@
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import path from 'path';
+import type * as ynab from 'ynab';
+
+// Directory holding the synced YNAB data, overridable for deployments
+export const CACHE_DIR = process.env.YNAB_CACHE_DIR || path.join(process.cwd(), '.cache', 'ynab');
+
+// Local copy of one YNAB account, kept current with delta requests
+export interface AccountCache {
+  serverKnowledge: number;
+  syncedAt: number;
+  balance: number;
+  transactions: ynab.TransactionDetail[];
+}
+
+function cachePath(budgetId: string, accountId: string) {
+  return path.join(CACHE_DIR, `${budgetId}_${accountId}.json`);
+}
+
+// Read the cached account, or null when it was never synced (or the file is unreadable)
+export async function readAccountCache(budgetId: string, accountId: string): Promise<AccountCache | null> {
+  try {
+    const raw = await fs.readFile(cachePath(budgetId, accountId), 'utf8');
+    return JSON.parse(raw) as AccountCache;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Error reading transaction cache, resyncing from scratch:', error);
+    }
+    return null;
+  }
+}
+
+export async function writeAccountCache(budgetId: string, accountId: string, cache: AccountCache): Promise<void> {
+  await fs.mkdir(CACHE_DIR, { recursive: true });
+
+  // Write to a temporary file first so a crash never leaves half a cache behind. Each write gets
+  // its own, so two writes of the same account can't rename each other's file away.
+  const filePath = cachePath(budgetId, accountId);
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  try {
+    await fs.writeFile(tempPath, JSON.stringify(cache), 'utf8');
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
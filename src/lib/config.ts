@@ -0,0 +1,114 @@
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import path from 'path';
+import type { AccountConfig } from './debt';
+import { HttpError } from './http';
+import { validateAccountsFile, type AccountsFile } from './validation';
+
+// Location of the account configuration file, overridable for deployments
+export const ACCOUNTS_CONFIG_PATH = process.env.ACCOUNTS_CONFIG_PATH
+  || path.join(process.cwd(), 'config', 'accounts.json');
+
+// Read and validate the account configuration file
+export async function loadAccountsFile(): Promise<AccountsFile> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(ACCOUNTS_CONFIG_PATH, 'utf8');
+  } catch (error) {
+    console.error('Error reading account configuration:', error);
+    throw new HttpError(500, `Account configuration file could not be read: ${ACCOUNTS_CONFIG_PATH}`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new HttpError(500, `Account configuration file is not valid JSON: ${reason}`);
+  }
+
+  const issues = validateAccountsFile(data);
+  if (issues.length > 0) {
+    throw new HttpError(500, `Invalid account configuration:\n${issues.join('\n')}`);
+  }
+  return data as AccountsFile;
+}
+
+// All configured accounts, keyed by account key
+export async function getAccountConfigs(): Promise<Record<string, AccountConfig>> {
+  const file = await loadAccountsFile();
+  return file.accounts;
+}
+
+// Helper function to get account config from URL parameter
+export async function getAccountConfig(accountKey: string): Promise<AccountConfig | null> {
+  const accounts = await getAccountConfigs();
+  if (Object.prototype.hasOwnProperty.call(accounts, accountKey)) {
+    return accounts[accountKey];
+  }
+  return null;
+}
+
+// Same as getAccountConfig, but fails with a 404 for API routes
+export async function requireAccountConfig(accountKey: string): Promise<AccountConfig> {
+  const config = await getAccountConfig(accountKey);
+  if (!config) {
+    throw new HttpError(404, `Account configuration not found for: ${accountKey}`);
+  }
+  return config;
+}
+
+// Changes read, modify and write the whole file, so they run one after another;
+// otherwise two saves at once would each drop the other's change
+let pendingChange: Promise<unknown> = Promise.resolve();
+
+function queueChange<T>(change: () => Promise<T>): Promise<T> {
+  const run = pendingChange.catch(() => undefined).then(change);
+  pendingChange = run;
+  return run;
+}
+
+async function writeAccountsFile(file: AccountsFile): Promise<void> {
+  const issues = validateAccountsFile(file);
+  if (issues.length > 0) {
+    throw new HttpError(400, `Invalid account configuration:\n${issues.join('\n')}`);
+  }
+
+  // Write to a temporary file first so a failed write never truncates the config.
+  // Each write gets its own, so no two writes share one.
+  const tempPath = `${ACCOUNTS_CONFIG_PATH}.${randomUUID()}.tmp`;
+  try {
+    await fs.writeFile(tempPath, `${JSON.stringify(file, null, 2)}\n`, 'utf8');
+    await fs.rename(tempPath, ACCOUNTS_CONFIG_PATH);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+// Validate and persist the whole configuration file
+export function saveAccountsFile(file: AccountsFile): Promise<void> {
+  return queueChange(() => writeAccountsFile(file));
+}
+
+// Create or replace a single account configuration
+export function saveAccountConfig(accountKey: string, config: AccountConfig): Promise<AccountConfig> {
+  return queueChange(async () => {
+    const file = await loadAccountsFile();
+    file.accounts[accountKey] = config;
+    await writeAccountsFile(file);
+    return config;
+  });
+}
+
+// Remove an account configuration
+export function deleteAccountConfig(accountKey: string): Promise<void> {
+  return queueChange(async () => {
+    const file = await loadAccountsFile();
+    if (!Object.prototype.hasOwnProperty.call(file.accounts, accountKey)) {
+      throw new HttpError(404, `Account configuration not found for: ${accountKey}`);
+    }
+    delete file.accounts[accountKey];
+    await writeAccountsFile(file);
+  });
+}
@@ -0,0 +1,487 @@
+import dayjs from 'dayjs';
+
+// TypeScript interfaces
+export interface PaymentConstants {
+  paymentQuantity: number;
+  maxDailyPayment: number;
+  minDailyPayment: number;
+  // Weekdays (0 = Sunday ... 6 = Saturday), used when no `schedule` is set
+  paymentDays: readonly number[];
+  schedule?: PaymentSchedule;
+}
+
+export const SCHEDULE_TYPES = ['weekdays', 'monthDays', 'interval'] as const;
+
+export type ScheduleType = typeof SCHEDULE_TYPES[number];
+
+// Holiday or vacation with no payment due, both ends included
+export interface ScheduleExclusion {
+  from: string;
+  to?: string; // Defaults to `from` for single days
+  reason?: string;
+}
+
+interface ScheduleBase {
+  exclusions?: ScheduleExclusion[];
+}
+
+export interface WeekdaySchedule extends ScheduleBase {
+  type: 'weekdays';
+  weekdays: number[]; // 0 = Sunday ... 6 = Saturday
+}
+
+export interface MonthDaySchedule extends ScheduleBase {
+  type: 'monthDays';
+  days: number[]; // 1-31, days past the end of a month fall on its last day
+}
+
+export interface IntervalSchedule extends ScheduleBase {
+  type: 'interval';
+  everyDays: number;
+  anchorDate: string; // Any date a payment falls on
+}
+
+export type PaymentSchedule = WeekdaySchedule | MonthDaySchedule | IntervalSchedule;
+
+export interface DeadlineConfig {
+  enabled: boolean;
+  endDate: string;
+  showDaysRemaining: boolean;
+  description: string;
+}
+
+export const COMPOUNDING_PERIODS = ['daily', 'monthly', 'annually'] as const;
+
+export type CompoundingPeriod = typeof COMPOUNDING_PERIODS[number];
+
+// Optional loan terms for interest-bearing debts
+export interface InterestConfig {
+  apr: number; // Annual percentage rate, e.g. 12.5 for 12.5%
+  compounding: CompoundingPeriod;
+  principal: number; // Original amount borrowed
+  termMonths: number;
+  startDate: string; // Date the loan was disbursed, installments start a month later
+}
+
+export const REMINDER_CHANNELS = ['push', 'webhook', 'email'] as const;
+
+export type ReminderChannel = typeof REMINDER_CHANNELS[number];
+
+// HH:mm range without notifications, in server time; may wrap past midnight (22:00-07:00)
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+// Keep reminding while the deadline is at risk, instead of once a day
+export interface ReminderEscalation {
+  enabled: boolean;
+  repeatMinutes: number;
+}
+
+// Pending-payment reminders for an account
+export interface ReminderConfig {
+  enabled: boolean;
+  cutoffTime: string; // HH:mm; a payment day with no entry by then is reminded
+  quietHours?: QuietHours;
+  channels?: ReminderChannel[]; // Every configured channel when missing
+  escalation?: ReminderEscalation;
+}
+
+// Mirror the payment plan as YNAB scheduled transfers from one payment method's account
+export interface YnabScheduleConfig {
+  enabled: boolean;
+  paymentMethod: string; // Name of a payment method with an account
+}
+
+// Older form of the payment methods: method name to YNAB account
+export interface PaymentAccounts {
+  [key: string]: string;
+}
+
+export const PAYMENT_METHOD_COLORS = ['purple', 'green', 'blue', 'orange', 'pink', 'teal', 'gray'] as const;
+
+export type PaymentMethodColor = typeof PAYMENT_METHOD_COLORS[number];
+
+// Cost the method charges on top of each payment, e.g. a transfer fee
+export interface PaymentMethodFee {
+  fixed?: number;
+  percent?: number;
+}
+
+// A way of paying a debt, offered as a button in the payment forms
+export interface PaymentMethodConfig {
+  name: string; // Stored with each payment, e.g. "Yappy"
+  label?: string; // Button text, the name when missing
+  color?: PaymentMethodColor;
+  // YNAB account the payment is transferred from. null registers a plain payment with the
+  // "Pago <name>" payee, which must be chosen explicitly.
+  accountId: string | null;
+  minPayment?: number; // Per payment, on top of the daily bounds
+  maxPayment?: number;
+  fee?: PaymentMethodFee;
+}
+
+export interface AccountConfig {
+  budgetId?: string;
+  accountId: string;
+  name: string;
+  constants: PaymentConstants;
+  deadlineConfig?: DeadlineConfig;
+  paymentMethods?: PaymentMethodConfig[];
+  paymentAccounts?: PaymentAccounts; // Older form, read when paymentMethods is missing
+  interest?: InterestConfig;
+  reminders?: ReminderConfig;
+  ynabSchedule?: YnabScheduleConfig;
+}
+
+export interface PaymentHistoryItem {
+  // YNAB transaction id, missing for payments still waiting in the offline queue
+  id?: string;
+  date: string;
+  amount: number;
+  balance: number;
+  cleared?: string;
+  memo?: string;
+  // Payment method the transaction was registered with, when it can be recognised
+  method?: string;
+  // Raised the debt instead of paying it: the starting balance, interest or a new charge
+  charge?: boolean;
+  // Registered offline and still waiting to be replayed to YNAB
+  pending?: boolean;
+}
+
+// Remaining debt at the end of a day, for the balance chart
+export interface BalancePoint {
+  date: string;
+  balance: number;
+}
+
+export const BALANCE_RANGES = {
+  '30d': 'Últimos 30 días',
+  '6m': 'Últimos 6 meses',
+  all: 'Todo',
+} as const;
+
+export type BalanceRange = keyof typeof BALANCE_RANGES;
+
+// Account data exposed to the browser by /api/accounts/[key]
+export interface AccountSummary {
+  key: string;
+  name: string;
+  balance: number;
+  constants: PaymentConstants;
+  deadlineConfig?: DeadlineConfig;
+  interest?: InterestConfig;
+  paymentMethods: PaymentMethodConfig[];
+}
+
+// Account summary plus the latest payments, as listed by /api/accounts
+export interface AccountOverview extends AccountSummary {
+  recentPayments: PaymentHistoryItem[];
+}
+
+// Account /api/accounts could not load, e.g. its budget or YNAB account is gone
+export interface UnavailableAccount {
+  key: string;
+  name: string;
+  error: string;
+}
+
+export type AccountOverviewEntry = AccountOverview | UnavailableAccount;
+
+export function isAccountAvailable(entry: AccountOverviewEntry): entry is AccountOverview {
+  return !('error' in entry);
+}
+
+export interface DebtStatus {
+  text: string;
+  color: string;
+}
+
+// YNAB budget offered by the settings budget picker
+export interface YnabBudgetOption {
+  id: string;
+  name: string;
+}
+
+// YNAB account offered by the settings account picker
+export interface YnabAccountOption {
+  id: string;
+  name: string;
+  type: string;
+  balance: number;
+  closed: boolean;
+}
+
+// Helper function to convert YNAB milliunits to regular currency
+export function milliunitsToCurrency(milliunits: number): number {
+  return milliunits / 1000;
+}
+
+// Helper function to convert currency to YNAB milliunits
+export function currencyToMilliunits(amount: number): number {
+  return Math.round(amount * 1000);
+}
+
+// The account's schedule, falling back to the plain `paymentDays` weekdays
+export function getPaymentSchedule(constants: Pick<PaymentConstants, 'paymentDays' | 'schedule'>): PaymentSchedule {
+  return constants.schedule ?? { type: 'weekdays', weekdays: [...constants.paymentDays] };
+}
+
+// The holiday or vacation covering a YYYY-MM-DD date, if any
+export function getExclusionOn(schedule: PaymentSchedule, date: string): ScheduleExclusion | undefined {
+  return schedule.exclusions?.find((exclusion) => date >= exclusion.from && date <= (exclusion.to ?? exclusion.from));
+}
+
+// Whether the schedule puts a payment on a date, ignoring exclusions
+function isScheduledOn(schedule: PaymentSchedule, day: dayjs.Dayjs): boolean {
+  switch (schedule.type) {
+    case 'weekdays':
+      return schedule.weekdays.includes(day.day());
+    case 'monthDays': {
+      const lastDay = day.daysInMonth();
+      return schedule.days.some((monthDay) => Math.min(monthDay, lastDay) === day.date());
+    }
+    case 'interval': {
+      const offset = day.startOf('day').diff(dayjs(schedule.anchorDate).startOf('day'), 'day');
+      return offset % schedule.everyDays === 0;
+    }
+  }
+}
+
+// Whether a payment is due on a date, holidays and vacations excluded
+export function isPaymentDay(schedule: PaymentSchedule, date: string | dayjs.Dayjs): boolean {
+  const day = dayjs(date);
+  return isScheduledOn(schedule, day) && !getExclusionOn(schedule, day.format('YYYY-MM-DD'));
+}
+
+// Average payment days in a week, for weekly targets and interest checks
+export function getPaymentDaysPerWeek(schedule: PaymentSchedule): number {
+  switch (schedule.type) {
+    case 'weekdays':
+      return schedule.weekdays.length;
+    case 'monthDays':
+      return (new Set(schedule.days).size * 12) / 52;
+    case 'interval':
+      return 7 / schedule.everyDays;
+  }
+}
+
+// A real payment, as opposed to a blank payment or a charge
+export function isPayment(entry: PaymentHistoryItem): boolean {
+  return entry.amount > 0 && !entry.charge;
+}
+
+// Whether a payment (regular or blank) was registered on a YYYY-MM-DD date
+export function madePaymentOn(paymentHistory: PaymentHistoryItem[], date: string): boolean {
+  return paymentHistory.some(payment => payment.date === date && !payment.charge);
+}
+
+// Total paid on a YYYY-MM-DD date, used to enforce the daily payment cap
+export function getTotalPaidOn(paymentHistory: PaymentHistoryItem[], date: string): number {
+  return paymentHistory
+    .filter(payment => payment.date === date && !payment.charge)
+    .reduce((sum, payment) => sum + payment.amount, 0);
+}
+
+// Payment methods of an account. The older paymentAccounts map becomes one method per account.
+export function getPaymentMethods(config: Pick<AccountConfig, 'paymentMethods' | 'paymentAccounts'>): PaymentMethodConfig[] {
+  if (config.paymentMethods) return config.paymentMethods;
+  return Object.entries(config.paymentAccounts || {}).map(([name, accountId]) => ({ name, accountId }));
+}
+
+export function findPaymentMethod(methods: PaymentMethodConfig[], name: string): PaymentMethodConfig | undefined {
+  return methods.find((method) => method.name === name);
+}
+
+// Method name to YNAB account, for the methods that have one
+export function getPaymentAccounts(config: Pick<AccountConfig, 'paymentMethods' | 'paymentAccounts'>): PaymentAccounts {
+  return Object.fromEntries(getPaymentMethods(config)
+    .filter((method) => method.accountId)
+    .map((method) => [method.name, method.accountId as string]));
+}
+
+// Fee charged by a method on one payment, rounded to cents
+export function getPaymentMethodFee(method: PaymentMethodConfig, amount: number): number {
+  const fixed = method.fee?.fixed ?? 0;
+  const percent = method.fee?.percent ?? 0;
+  return Math.round((fixed + (amount * percent) / 100) * 100) / 100;
+}
+
+// Check a payment against the method's own per-payment limits; null when allowed
+export function validateMethodAmount(amount: number, method: PaymentMethodConfig): string | null {
+  const name = method.label || method.name;
+  if (method.minPayment !== undefined && amount < method.minPayment - 1e-9) {
+    return `El monto mínimo con ${name} es $${method.minPayment.toFixed(2)}.`;
+  }
+  if (method.maxPayment !== undefined && amount > method.maxPayment + 1e-9) {
+    return `El monto máximo con ${name} es $${method.maxPayment.toFixed(2)}.`;
+  }
+  return null;
+}
+
+// Check a payment against the configured bounds, given what was already paid that day.
+// Returns a message explaining the rejection, or null when the amount is allowed.
+export function validatePaymentAmount(
+  amount: number,
+  constants: Pick<PaymentConstants, 'maxDailyPayment' | 'minDailyPayment'>,
+  paidToday: number
+): string | null {
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return 'Ingresa un monto válido mayor a $0.';
+  }
+  if (Math.abs(amount * 100 - Math.round(amount * 100)) > 1e-6) {
+    return 'El monto no puede tener más de dos decimales.';
+  }
+
+  const dailyTotal = paidToday + amount;
+  if (dailyTotal > constants.maxDailyPayment + 1e-9) {
+    const remaining = Math.max(0, constants.maxDailyPayment - paidToday);
+    return paidToday > 0
+      ? `Hoy ya pagaste $${paidToday.toFixed(2)}. El máximo diario es $${constants.maxDailyPayment.toFixed(2)}, solo puedes pagar $${remaining.toFixed(2)} más.`
+      : `El monto máximo diario es $${constants.maxDailyPayment.toFixed(2)}.`;
+  }
+  if (dailyTotal < constants.minDailyPayment - 1e-9) {
+    return paidToday > 0
+      ? `Hoy ya pagaste $${paidToday.toFixed(2)}. Para llegar al mínimo diario de $${constants.minDailyPayment.toFixed(2)} debes pagar al menos $${(constants.minDailyPayment - paidToday).toFixed(2)}.`
+      : `El monto mínimo diario es $${constants.minDailyPayment.toFixed(2)}.`;
+  }
+  return null;
+}
+
+// A payment day with nothing recorded on it yet, what the status and the reminders call "pendiente"
+export function isPaymentPendingOn(schedule: PaymentSchedule, paymentHistory: PaymentHistoryItem[], date: string): boolean {
+  return isPaymentDay(schedule, date) && !madePaymentOn(paymentHistory, date);
+}
+
+// Today's payment status for an account
+export function getDebtStatus(schedule: PaymentSchedule, paymentHistory: PaymentHistoryItem[]): DebtStatus {
+  const todayString = dayjs().format('YYYY-MM-DD');
+
+  // Check if today is a payment day
+  const isDue = isPaymentDay(schedule, todayString);
+
+  // Check if today's payment is still missing
+  const isPending = isPaymentPendingOn(schedule, paymentHistory, todayString);
+
+  if (isDue && !isPending) {
+    return { text: "¡Pago realizado hoy!", color: "text-green-400" };
+  } else if (isPending) {
+    return { text: "Pago pendiente hoy", color: "text-red-400" };
+  } else if (!isDue) {
+    return { text: getExclusionOn(schedule, todayString) ? "Día libre, no hay pago" : "No es día de pago", color: "text-blue-400" };
+  } else {
+    return { text: "Al día", color: "text-green-400" };
+  }
+}
+
+// Helper function to calculate payment days remaining until deadline
+export function calculatePaymentDaysRemaining(
+  endDate: string,
+  schedule: PaymentSchedule,
+  paymentHistory: PaymentHistoryItem[]
+): number {
+  const today = dayjs();
+  const deadline = dayjs(endDate);
+
+  // Count all payment days from today until deadline
+  let paymentDaysCount = 0;
+  let currentDate = today;
+
+  while (currentDate.isBefore(deadline) || currentDate.isSame(deadline, 'day')) {
+    if (isPaymentDay(schedule, currentDate)) {
+      paymentDaysCount++;
+    }
+    currentDate = currentDate.add(1, 'day');
+  }
+
+  // Subtract days where payments were already made
+  const paidDays = paymentHistory.filter(payment => {
+    const paymentDate = dayjs(payment.date);
+    return paymentDate.isAfter(today.subtract(1, 'day')) && // Include today
+           paymentDate.isBefore(deadline.add(1, 'day')) && // Include deadline
+           isPaymentDay(schedule, paymentDate) &&
+           !payment.charge; // Count both regular payments and blank payments
+  }).length;
+
+  return Math.max(0, paymentDaysCount - paidDays);
+}
+
+// How far back the catch-up flow looks when nothing was ever registered
+const MAX_CATCH_UP_DAYS = 60;
+
+// Payment days since the last entry (payment or blank) that have nothing recorded, oldest first.
+// Today is not missed yet.
+export function getMissedPaymentDays(schedule: PaymentSchedule, paymentHistory: PaymentHistoryItem[]): string[] {
+  const today = dayjs().startOf('day');
+  const earliest = today.subtract(MAX_CATCH_UP_DAYS, 'day');
+  const lastEntry = paymentHistory
+    .filter(payment => !payment.charge)
+    .map(payment => payment.date)
+    .sort()
+    .pop();
+
+  let currentDate = lastEntry ? dayjs(lastEntry).add(1, 'day') : earliest;
+  if (currentDate.isBefore(earliest)) {
+    currentDate = earliest;
+  }
+
+  const missed: string[] = [];
+  while (currentDate.isBefore(today)) {
+    if (isPaymentDay(schedule, currentDate)) {
+      missed.push(currentDate.format('YYYY-MM-DD'));
+    }
+    currentDate = currentDate.add(1, 'day');
+  }
+  return missed;
+}
+
+// Helper function to get days until deadline
+export function getDaysUntilDeadline(endDate: string): number {
+  const today = dayjs();
+  const deadline = dayjs(endDate);
+  const diffDays = deadline.diff(today, 'day');
+  return Math.max(0, diffDays);
+}
+
+// First day included in a balance chart range, or undefined for all time
+export function getBalanceRangeStart(range: BalanceRange): string | undefined {
+  switch (range) {
+    case '30d':
+      return dayjs().subtract(30, 'day').format('YYYY-MM-DD');
+    case '6m':
+      return dayjs().subtract(6, 'month').format('YYYY-MM-DD');
+    default:
+      return undefined;
+  }
+}
+
+// One point per day with the balance left at the end of it, oldest first.
+// Expects the full history, newest first, as returned by the API.
+export function buildBalanceHistory(paymentHistory: PaymentHistoryItem[], sinceDate?: string): BalancePoint[] {
+  const points: BalancePoint[] = [];
+
+  for (const payment of paymentHistory) {
+    if (sinceDate && payment.date < sinceDate) {
+      // The balance before the range starts is where the line begins
+      if (points.length === 0 || points[points.length - 1].date !== sinceDate) {
+        points.push({ date: sinceDate, balance: payment.balance });
+      }
+      break;
+    }
+    // The newest transaction of a day holds that day's closing balance
+    if (points.length === 0 || points[points.length - 1].date !== payment.date) {
+      points.push({ date: payment.date, balance: payment.balance });
+    }
+  }
+
+  points.reverse();
+
+  // Extend the line to today so quiet periods still show the current balance
+  const today = dayjs().format('YYYY-MM-DD');
+  if (paymentHistory.length > 0 && points[points.length - 1].date < today) {
+    points.push({ date: today, balance: paymentHistory[0].balance });
+  }
+  return points;
+}
@@ -0,0 +1,145 @@
+import { NextResponse } from 'next/server';
+import { HttpError } from './http';
+import { isValidDate } from './validation';
+import type { PaymentHistoryItem } from './debt';
+import type { ProjectedPayment } from './projection';
+
+export const EXPORT_FORMATS = ['csv', 'json'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const EXPORT_TYPES = ['history', 'schedule'] as const;
+
+export type ExportType = typeof EXPORT_TYPES[number];
+
+export interface ExportOptions {
+  format: ExportFormat;
+  type: ExportType;
+  // Inclusive YYYY-MM-DD bounds, open when missing
+  from?: string;
+  to?: string;
+}
+
+export interface HistoryExportRow {
+  account: string;
+  date: string;
+  amount: number;
+  method: string;
+  cleared: string;
+  memo: string;
+  // Debt left after the transaction
+  balance: number;
+  // Raised the debt instead of paying it, so `amount` is not a payment
+  charge: boolean;
+  blank: boolean;
+  blankReason: string;
+}
+
+export interface ScheduleExportRow {
+  account: string;
+  date: string;
+  payment: number;
+  interest: number;
+  balance: number;
+}
+
+const HISTORY_COLUMNS: (keyof HistoryExportRow)[] = ['account', 'date', 'amount', 'method', 'cleared', 'memo', 'balance', 'charge', 'blank', 'blankReason'];
+
+const SCHEDULE_COLUMNS: (keyof ScheduleExportRow)[] = ['account', 'date', 'payment', 'interest', 'balance'];
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function inRange(date: string, { from, to }: ExportOptions): boolean {
+  return (!from || date >= from) && (!to || date <= to);
+}
+
+// Read ?format=&type=&from=&to=, defaulting to the CSV payment history
+export function parseExportOptions(params: URLSearchParams): ExportOptions {
+  const format = params.get('format') || 'csv';
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    throw new HttpError(400, `Unknown format "${format}". Use one of: ${EXPORT_FORMATS.join(', ')}`);
+  }
+  const type = params.get('type') || 'history';
+  if (!EXPORT_TYPES.includes(type as ExportType)) {
+    throw new HttpError(400, `Unknown type "${type}". Use one of: ${EXPORT_TYPES.join(', ')}`);
+  }
+
+  const options: ExportOptions = { format: format as ExportFormat, type: type as ExportType };
+  for (const bound of ['from', 'to'] as const) {
+    const value = params.get(bound);
+    if (value) {
+      if (!isValidDate(value)) {
+        throw new HttpError(400, `"${bound}" must be a valid YYYY-MM-DD date`);
+      }
+      options[bound] = value;
+    }
+  }
+  if (options.from && options.to && options.from > options.to) {
+    throw new HttpError(400, '"from" cannot be after "to"');
+  }
+  return options;
+}
+
+// History entries within the range, oldest first
+export function toHistoryExportRows(account: string, history: PaymentHistoryItem[], options: ExportOptions): HistoryExportRow[] {
+  return history
+    .filter((entry) => inRange(entry.date, options))
+    .map((entry) => {
+      const blank = entry.amount === 0;
+      return {
+        account,
+        date: entry.date,
+        amount: entry.amount,
+        method: entry.method ?? '',
+        cleared: entry.cleared ?? '',
+        memo: entry.memo ?? '',
+        balance: entry.balance,
+        charge: entry.charge ?? false,
+        blank,
+        blankReason: blank ? entry.memo ?? '' : '',
+      };
+    })
+    .reverse();
+}
+
+// Projected payments within the range, rounded to the cent
+export function toScheduleExportRows(account: string, payments: ProjectedPayment[], options: ExportOptions): ScheduleExportRow[] {
+  return payments
+    .filter((payment) => inRange(payment.date, options))
+    .map((payment) => ({
+      account,
+      date: payment.date,
+      payment: roundCents(payment.payment),
+      interest: roundCents(payment.interest),
+      balance: roundCents(payment.balance),
+    }));
+}
+
+function csvValue(value: string | number | boolean): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv<T extends object>(rows: T[], columns: (keyof T)[]): string {
+  const lines = [columns.join(',')];
+  for (const row of rows) {
+    lines.push(columns.map((column) => csvValue(row[column] as string | number | boolean)).join(','));
+  }
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+// Serve export rows as a CSV or JSON download
+export function exportResponse(rows: (HistoryExportRow | ScheduleExportRow)[], options: ExportOptions, name: string) {
+  const filename = `${name}-${options.type}.${options.format}`;
+  const headers = { 'Content-Disposition': `attachment; filename="${filename}"` };
+
+  if (options.format === 'json') {
+    return NextResponse.json(rows, { headers });
+  }
+  const csv = options.type === 'history'
+    ? toCsv(rows as HistoryExportRow[], HISTORY_COLUMNS)
+    : toCsv(rows as ScheduleExportRow[], SCHEDULE_COLUMNS);
+  return new NextResponse(csv, { headers: { ...headers, 'Content-Type': 'text/csv; charset=utf-8' } });
+}
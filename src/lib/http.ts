@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+
+// Error carrying the HTTP status an API route should answer with
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// Convert any thrown error into a JSON error response
+export function errorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof HttpError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+
+  console.error(fallbackMessage, error);
+  return NextResponse.json({ error: fallbackMessage }, { status: 500 });
+}
+
+// Parse a JSON object body, so a malformed or non-object body is a 400 instead of a 500
+export async function readJsonBody<T extends object>(request: Request): Promise<T> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON');
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+  return body as T;
+}
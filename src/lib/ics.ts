@@ -0,0 +1,164 @@
+import dayjs from 'dayjs';
+import { getCalendarDayState } from './analytics';
+import { isPaymentDay, type DeadlineConfig, type PaymentHistoryItem, type PaymentSchedule } from './debt';
+import type { ProjectedPayment } from './projection';
+
+// Calendar apps only need recent history; older days stay in the app
+const FEED_PAST_DAYS = 90;
+// Upcoming payment days listed when no deadline ends the feed sooner
+const FEED_FUTURE_DAYS = 365;
+// Reminder time on the morning of each upcoming payment day
+const REMINDER_TRIGGER = 'PT9H';
+
+export interface PaymentCalendarFeedInput {
+  key: string;
+  name: string;
+  schedule: PaymentSchedule;
+  paymentQuantity: number;
+  deadlineConfig?: DeadlineConfig | null;
+  history: PaymentHistoryItem[];
+  // Projected payments from today on; null when the schedule never pays the debt off
+  projected: ProjectedPayment[] | null;
+}
+
+interface FeedEvent {
+  uid: string;
+  date: string;
+  summary: string;
+  description: string;
+  reminder: boolean;
+}
+
+const formatAmount = (amount: number) =>
+  `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Content lines longer than 75 octets continue on the next line after a space (RFC 5545 3.1)
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function toIcsDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function eventLines(event: FeedEvent, stamp: string): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${toIcsDate(event.date)}`,
+    `DTEND;VALUE=DATE:${toIcsDate(dayjs(event.date).add(1, 'day').format('YYYY-MM-DD'))}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    'TRANSP:TRANSPARENT',
+  ];
+  if (event.reminder) {
+    lines.push('BEGIN:VALARM', 'ACTION:DISPLAY', `DESCRIPTION:${escapeText(event.summary)}`, `TRIGGER:${REMINDER_TRIGGER}`, 'END:VALARM');
+  }
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+// Past payment days with what happened on them, from the first entry or the last FEED_PAST_DAYS
+function pastEvents({ key, name, schedule, paymentQuantity, history }: PaymentCalendarFeedInput): FeedEvent[] {
+  const today = dayjs().format('YYYY-MM-DD');
+  const trackingStart = history.length > 0 ? history[history.length - 1].date : null;
+  if (!trackingStart) return [];
+
+  const events: FeedEvent[] = [];
+  const windowStart = dayjs().subtract(FEED_PAST_DAYS, 'day').format('YYYY-MM-DD');
+  let day = dayjs(trackingStart > windowStart ? trackingStart : windowStart);
+  for (; day.format('YYYY-MM-DD') <= today; day = day.add(1, 'day')) {
+    const date = day.format('YYYY-MM-DD');
+    const state = getCalendarDayState(date, schedule, history, trackingStart);
+    const onDate = history.filter((entry) => entry.date === date && !entry.charge);
+    const suggested = `Monto sugerido: ${formatAmount(paymentQuantity)}`;
+
+    if (state === 'paid') {
+      const paid = onDate.reduce((sum, entry) => sum + entry.amount, 0);
+      events.push({ uid: `${key}-${date}`, date, summary: `✓ ${name}: pagado ${formatAmount(paid)}`, description: `Pagado: ${formatAmount(paid)}\n${suggested}`, reminder: false });
+    } else if (state === 'blank') {
+      const reason = onDate.find((entry) => entry.memo)?.memo;
+      events.push({ uid: `${key}-${date}`, date, summary: `– ${name}: pago en blanco`, description: `Pago en blanco${reason ? `: ${reason}` : ''}\n${suggested}`, reminder: false });
+    } else if (state === 'missed') {
+      events.push({ uid: `${key}-${date}`, date, summary: `✗ ${name}: pago no realizado`, description: `No se registró ningún pago.\n${suggested}`, reminder: false });
+    }
+  }
+  return events;
+}
+
+// Upcoming payment days with the projected amount, until the debt is paid, the deadline or FEED_FUTURE_DAYS
+function upcomingEvents({ key, name, schedule, paymentQuantity, deadlineConfig, history, projected }: PaymentCalendarFeedInput): FeedEvent[] {
+  const today = dayjs().format('YYYY-MM-DD');
+  const horizon = dayjs().add(FEED_FUTURE_DAYS, 'day').format('YYYY-MM-DD');
+  const end = deadlineConfig?.enabled && deadlineConfig.endDate < horizon ? deadlineConfig.endDate : horizon;
+
+  const toEvent = (date: string, amount: number): FeedEvent => ({
+    uid: `${key}-${date}`,
+    date,
+    summary: `${name}: pagar ${formatAmount(amount)}`,
+    description: `Monto sugerido: ${formatAmount(amount)}`,
+    reminder: true,
+  });
+
+  if (projected) {
+    return projected
+      .filter((payment) => payment.date <= end)
+      .map((payment) => toEvent(payment.date, Math.round(payment.payment * 100) / 100));
+  }
+
+  // Without a projection every payment day gets the configured amount
+  const events: FeedEvent[] = [];
+  const paidToday = history.some((entry) => entry.date === today);
+  for (let day = dayjs(today); day.format('YYYY-MM-DD') <= end; day = day.add(1, 'day')) {
+    const date = day.format('YYYY-MM-DD');
+    if ((date !== today || !paidToday) && isPaymentDay(schedule, day)) {
+      events.push(toEvent(date, paymentQuantity));
+    }
+  }
+  return events;
+}
+
+// iCalendar feed of an account's payment days: past states, upcoming amounts and the deadline
+export function buildPaymentCalendarFeed(input: PaymentCalendarFeedInput): string {
+  const { key, name, deadlineConfig } = input;
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+  const events = [...pastEvents(input), ...upcomingEvents(input)];
+  if (deadlineConfig?.enabled) {
+    events.push({
+      uid: `${key}-deadline`,
+      date: deadlineConfig.endDate,
+      summary: `Fecha límite: ${name}`,
+      description: deadlineConfig.description || `Fecha límite para pagar ${name}`,
+      reminder: true,
+    });
+  }
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//ynab-debt-tracker//Payment calendar//ES',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`Pagos ${name}`)}`,
+    ...events.flatMap((event) => eventLines({ ...event, uid: `${event.uid}@ynab-debt-tracker` }, stamp)),
+    'END:VCALENDAR',
+  ];
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
@@ -0,0 +1,195 @@
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import webpush, { type PushSubscription } from 'web-push';
+import type { ReminderChannel } from './debt';
+
+// Reminder log and push subscriptions, overridable for deployments
+export const REMINDER_STATE_DIR = process.env.REMINDER_STATE_DIR || path.join(process.cwd(), '.cache', 'reminders');
+
+const SUBSCRIPTIONS_PATH = path.join(REMINDER_STATE_DIR, 'push-subscriptions.json');
+
+// What every channel delivers, in its own format
+export interface ReminderNotification {
+  accountKey: string;
+  accountName: string;
+  date: string;
+  title: string;
+  body: string;
+  // Page to open, relative to the app
+  url: string;
+  // Deadline at risk: sent with high priority
+  urgent: boolean;
+}
+
+// A way of delivering reminders. New channels only need a factory in CHANNEL_FACTORIES.
+export interface NotificationChannel {
+  name: ReminderChannel;
+  send(notification: ReminderNotification): Promise<void>;
+}
+
+// Links in emails and webhooks need the full address of the app
+function absoluteUrl(url: string): string {
+  const base = process.env.REMINDER_APP_URL || 'http://localhost:3000';
+  return new URL(url, base).toString();
+}
+
+// Each write gets its own temporary file, so concurrent writes never rename each other's away
+async function writeJson(filePath: string, data: unknown) {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  try {
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+// Browsers that accepted push notifications
+export async function readPushSubscriptions(): Promise<PushSubscription[]> {
+  try {
+    return JSON.parse(await fs.readFile(SUBSCRIPTIONS_PATH, 'utf8')) as PushSubscription[];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Error reading push subscriptions:', error);
+    }
+    return [];
+  }
+}
+
+// Store a subscription, replacing an older one for the same browser
+export async function savePushSubscription(subscription: PushSubscription): Promise<void> {
+  const subscriptions = await readPushSubscriptions();
+  await writeJson(SUBSCRIPTIONS_PATH, [
+    ...subscriptions.filter((existing) => existing.endpoint !== subscription.endpoint),
+    subscription,
+  ]);
+}
+
+export async function removePushSubscriptions(endpoints: string[]): Promise<void> {
+  const subscriptions = await readPushSubscriptions();
+  await writeJson(SUBSCRIPTIONS_PATH, subscriptions.filter((existing) => !endpoints.includes(existing.endpoint)));
+}
+
+// Public VAPID key the browser subscribes with, or null when push is not configured
+export function getPushPublicKey(): string | null {
+  return process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY ? process.env.VAPID_PUBLIC_KEY : null;
+}
+
+// Web push to every subscribed browser (VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT)
+function createPushChannel(): NotificationChannel | null {
+  const publicKey = getPushPublicKey();
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) return null;
+
+  const vapidDetails = {
+    subject: process.env.VAPID_SUBJECT || 'mailto:admin@localhost',
+    publicKey,
+    privateKey,
+  };
+
+  return {
+    name: 'push',
+    async send(notification) {
+      const subscriptions = await readPushSubscriptions();
+      if (subscriptions.length === 0) {
+        throw new Error('No browser is subscribed to push notifications');
+      }
+
+      const payload = JSON.stringify(notification);
+      const expired: string[] = [];
+      const results = await Promise.allSettled(subscriptions.map(async (subscription) => {
+        try {
+          await webpush.sendNotification(subscription, payload, {
+            vapidDetails,
+            urgency: notification.urgent ? 'high' : 'normal',
+            TTL: 12 * 60 * 60,
+          });
+        } catch (error) {
+          // The browser unsubscribed or the subscription expired
+          const statusCode = (error as { statusCode?: number }).statusCode;
+          if (statusCode === 404 || statusCode === 410) {
+            expired.push(subscription.endpoint);
+          }
+          throw error;
+        }
+      }));
+      // Removed together after delivery, so one write drops every expired subscription
+      if (expired.length > 0) {
+        await removePushSubscriptions(expired);
+      }
+      if (results.every((result) => result.status === 'rejected')) {
+        throw new Error(`Push failed for all ${subscriptions.length} subscription(s)`);
+      }
+    },
+  };
+}
+
+// JSON POST to any URL (REMINDER_WEBHOOK_URL, optional REMINDER_WEBHOOK_TOKEN as a bearer token)
+function createWebhookChannel(): NotificationChannel | null {
+  const url = process.env.REMINDER_WEBHOOK_URL;
+  if (!url) return null;
+  const token = process.env.REMINDER_WEBHOOK_TOKEN;
+
+  return {
+    name: 'webhook',
+    async send(notification) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({ ...notification, url: absoluteUrl(notification.url) }),
+      });
+      if (!response.ok) {
+        throw new Error(`Webhook answered with status ${response.status}`);
+      }
+    },
+  };
+}
+
+// Email over SMTP (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS, REMINDER_EMAIL_FROM, REMINDER_EMAIL_TO)
+function createEmailChannel(): NotificationChannel | null {
+  const host = process.env.SMTP_HOST;
+  const to = process.env.REMINDER_EMAIL_TO;
+  if (!host || !to) return null;
+
+  const transport = nodemailer.createTransport({
+    host,
+    port: Number(process.env.SMTP_PORT || 587),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+  });
+
+  return {
+    name: 'email',
+    async send(notification) {
+      const link = absoluteUrl(notification.url);
+      await transport.sendMail({
+        from: process.env.REMINDER_EMAIL_FROM || `Debt Tracker <${to}>`,
+        to,
+        subject: notification.title,
+        text: `${notification.body}\n\n${link}`,
+        priority: notification.urgent ? 'high' : 'normal',
+      });
+    },
+  };
+}
+
+const CHANNEL_FACTORIES: Record<ReminderChannel, () => NotificationChannel | null> = {
+  push: createPushChannel,
+  webhook: createWebhookChannel,
+  email: createEmailChannel,
+};
+
+// Channels with their environment variables set, optionally limited to the given names
+export function getConfiguredChannels(names?: ReminderChannel[]): NotificationChannel[] {
+  return (Object.keys(CHANNEL_FACTORIES) as ReminderChannel[])
+    .filter((name) => !names || names.includes(name))
+    .map((name) => CHANNEL_FACTORIES[name]())
+    .filter((channel): channel is NotificationChannel => channel !== null);
+}
@@ -0,0 +1,181 @@
+import { useEffect, useRef, useState } from 'react';
+import dayjs from 'dayjs';
+import { ApiError, submitPayment, type PaymentRequest } from './api';
+import type { PaymentHistoryItem } from './debt';
+
+// Browser-side queue for payments registered without a working connection to YNAB
+const STORAGE_KEY = 'debt-tracker:payment-queue';
+const QUEUE_CHANGED_EVENT = 'payment-queue-changed';
+const QUEUE_REPLAYED_EVENT = 'payment-queue-replayed';
+const REPLAY_LOCK = 'debt-tracker:payment-queue-replay';
+
+// Retry every minute while online, for the case where YNAB itself was failing
+const REPLAY_INTERVAL_MS = 60_000;
+
+export interface QueuedPayment {
+  id: string;
+  accountKey: string;
+  // Always carries the day it was registered, so the replay lands on that date
+  payment: PaymentRequest & { date: string };
+  queuedAt: string;
+}
+
+export interface ReplayResult {
+  synced: QueuedPayment[];
+  rejected: { item: QueuedPayment; error: string }[];
+}
+
+function readQueue(): QueuedPayment[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) as QueuedPayment[] : [];
+  } catch (error) {
+    console.error('Error reading payment queue:', error);
+    return [];
+  }
+}
+
+function writeQueue(queue: QueuedPayment[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+  window.dispatchEvent(new Event(QUEUE_CHANGED_EVENT));
+}
+
+function removeFromQueue(id: string) {
+  writeQueue(readQueue().filter((item) => item.id !== id));
+}
+
+export function getQueuedPayments(accountKey?: string): QueuedPayment[] {
+  const queue = readQueue();
+  return accountKey ? queue.filter((item) => item.accountKey === accountKey) : queue;
+}
+
+export function enqueuePayment(accountKey: string, payment: PaymentRequest): QueuedPayment {
+  const item: QueuedPayment = {
+    id: crypto.randomUUID(),
+    accountKey,
+    payment: { ...payment, date: payment.date ?? dayjs().format('YYYY-MM-DD') },
+    queuedAt: new Date().toISOString(),
+  };
+  writeQueue([...readQueue(), item]);
+  return item;
+}
+
+// Offline, network failures and server/YNAB errors are worth retrying; validation rejections are not
+function isRetryable(error: unknown): boolean {
+  if (!navigator.onLine) return true;
+  return !(error instanceof ApiError) || error.status >= 500;
+}
+
+// Send a payment now, or keep it for later when YNAB can't be reached.
+// Payments behind others already waiting for the same account are queued to keep their order.
+export async function submitOrQueuePayment(
+  accountKey: string,
+  payment: PaymentRequest
+): Promise<'sent' | 'duplicate' | 'queued'> {
+  if (!navigator.onLine || getQueuedPayments(accountKey).length > 0) {
+    enqueuePayment(accountKey, payment);
+    void replayQueuedPayments();
+    return 'queued';
+  }
+
+  try {
+    const result = await submitPayment(accountKey, payment);
+    return result.duplicate ? 'duplicate' : 'sent';
+  } catch (error) {
+    if (!isRetryable(error)) throw error;
+    console.error('Error submitting payment, queued for later:', error);
+    enqueuePayment(accountKey, payment);
+    return 'queued';
+  }
+}
+
+// Oldest first, stopping at the first retryable failure so later payments never overtake it
+async function drainQueue(): Promise<ReplayResult> {
+  const result: ReplayResult = { synced: [], rejected: [] };
+
+  for (let item = readQueue()[0]; item; item = readQueue()[0]) {
+    try {
+      // The nonce travels with the item, so a replay that already reached YNAB comes back as a duplicate
+      await submitPayment(item.accountKey, item.payment);
+      result.synced.push(item);
+    } catch (error) {
+      if (isRetryable(error)) break;
+      console.error('Queued payment rejected:', error);
+      result.rejected.push({ item, error: error instanceof Error ? error.message : String(error) });
+    }
+    removeFromQueue(item.id);
+  }
+
+  if (result.synced.length > 0 || result.rejected.length > 0) {
+    window.dispatchEvent(new CustomEvent<ReplayResult>(QUEUE_REPLAYED_EVENT, { detail: result }));
+  }
+  return result;
+}
+
+let replaying: Promise<ReplayResult> | null = null;
+
+// One replay at a time per tab, and across tabs where the Web Locks API is available
+export function replayQueuedPayments(): Promise<ReplayResult> {
+  if (!replaying) {
+    const run = navigator.locks ? navigator.locks.request(REPLAY_LOCK, drainQueue) : drainQueue();
+    replaying = run.finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+}
+
+// Queued payments shown on top of the YNAB history, newest first, with the balance they would leave
+export function toPendingHistory(queued: QueuedPayment[], currentBalance: number): PaymentHistoryItem[] {
+  let balance = currentBalance;
+  const items = queued.map((item): PaymentHistoryItem => {
+    const amount = item.payment.kind === 'payment' ? item.payment.amount : 0;
+    balance -= amount;
+    return {
+      date: item.payment.date,
+      amount,
+      balance,
+      memo: item.payment.kind === 'blank' ? item.payment.reason : `Pago registrado vía ${item.payment.method}`,
+      pending: true,
+    };
+  });
+  return items.reverse();
+}
+
+// Keep a component in sync with the queue and replay it whenever the connection comes back
+export function usePaymentQueue(accountKey?: string, onReplayed?: (result: ReplayResult) => void): QueuedPayment[] {
+  const [queued, setQueued] = useState<QueuedPayment[]>([]);
+  const onReplayedRef = useRef(onReplayed);
+  onReplayedRef.current = onReplayed;
+
+  useEffect(() => {
+    const refresh = () => setQueued(getQueuedPayments(accountKey));
+    const replay = () => {
+      if (navigator.onLine && readQueue().length > 0) {
+        void replayQueuedPayments();
+      }
+    };
+    const handleReplayed = (event: Event) => {
+      onReplayedRef.current?.((event as CustomEvent<ReplayResult>).detail);
+    };
+
+    refresh();
+    replay();
+    const interval = setInterval(replay, REPLAY_INTERVAL_MS);
+    window.addEventListener(QUEUE_CHANGED_EVENT, refresh);
+    window.addEventListener(QUEUE_REPLAYED_EVENT, handleReplayed);
+    // Other tabs write to the same storage
+    window.addEventListener('storage', refresh);
+    window.addEventListener('online', replay);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener(QUEUE_CHANGED_EVENT, refresh);
+      window.removeEventListener(QUEUE_REPLAYED_EVENT, handleReplayed);
+      window.removeEventListener('storage', refresh);
+      window.removeEventListener('online', replay);
+    };
+  }, [accountKey]);
+
+  return queued;
+}
@@ -0,0 +1,202 @@
+import dayjs from 'dayjs';
+import { dailyRate } from './amortization';
+import { getPaymentSchedule, isPaymentDay, type AccountSummary, type PaymentSchedule } from './debt';
+
+// Give up simulating after this many years, the budget can't clear the debts
+const MAX_PLAN_YEARS = 50;
+
+export const PLANNER_STRATEGIES = {
+  avalanche: 'Avalancha (mayor tasa primero)',
+  snowball: 'Bola de nieve (menor saldo primero)',
+  deadline: 'Fecha límite primero',
+} as const;
+
+export type PlannerStrategy = keyof typeof PLANNER_STRATEGIES;
+
+export interface DebtPlan {
+  key: string;
+  name: string;
+  balance: number;
+  // Amount assigned to this debt on its first payment day of the plan
+  initialPayment: number;
+  payoffDate: string | null;
+  totalInterest: number;
+  // null when the debt has no deadline
+  meetsDeadline: boolean | null;
+}
+
+export interface StrategyPlan {
+  strategy: PlannerStrategy;
+  debts: DebtPlan[];
+  debtFreeDate: string | null;
+  totalInterest: number;
+  // Savings against paying only each debt's minimum, null when the minimums never finish
+  interestSaved: number | null;
+  daysSaved: number | null;
+  // The budget can't even cover every debt's minimum on a shared payment day
+  budgetBelowMinimums: boolean;
+}
+
+// Paying only each debt's minimum, what every strategy's savings are measured against
+export interface PlannerBaseline {
+  totalInterest: number;
+  lastDay: number | null;
+}
+
+interface SimulatedDebt {
+  summary: AccountSummary;
+  schedule: PaymentSchedule;
+  balance: number;
+  rate: number;
+  interest: number;
+  initialPayment: number | null;
+  payoffDay: number | null;
+}
+
+interface SimulationResult {
+  debts: SimulatedDebt[];
+  lastDay: number | null;
+  budgetBelowMinimums: boolean;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Order in which extra money is assigned under each strategy
+function compareDebts(strategy: PlannerStrategy, a: SimulatedDebt, b: SimulatedDebt): number {
+  switch (strategy) {
+    case 'avalanche':
+      return (b.summary.interest?.apr ?? 0) - (a.summary.interest?.apr ?? 0) || a.balance - b.balance;
+    case 'snowball':
+      return a.balance - b.balance;
+    case 'deadline': {
+      const aDeadline = a.summary.deadlineConfig?.enabled ? a.summary.deadlineConfig.endDate : '9999-12-31';
+      const bDeadline = b.summary.deadlineConfig?.enabled ? b.summary.deadlineConfig.endDate : '9999-12-31';
+      return aDeadline.localeCompare(bDeadline) || a.balance - b.balance;
+    }
+  }
+}
+
+// Walk day by day: accrue interest, pay every minimum, then spread the rest by strategy.
+// Without a strategy only the minimums are paid, which is the baseline for the savings.
+function simulate(accounts: AccountSummary[], dailyBudget: number, strategy: PlannerStrategy | null): SimulationResult {
+  const debts: SimulatedDebt[] = accounts.map((summary) => ({
+    summary,
+    schedule: getPaymentSchedule(summary.constants),
+    balance: summary.balance,
+    rate: summary.interest ? dailyRate(summary.interest) : 0,
+    interest: 0,
+    initialPayment: null,
+    payoffDay: summary.balance <= 0 ? 0 : null,
+  }));
+
+  const start = dayjs().startOf('day');
+  const maxDays = MAX_PLAN_YEARS * 366;
+  let budgetBelowMinimums = false;
+
+  for (let day = 0; day < maxDays; day++) {
+    const active = debts.filter((debt) => debt.payoffDay === null);
+    if (active.length === 0) {
+      return { debts, lastDay: Math.max(0, ...debts.map((debt) => debt.payoffDay ?? 0)), budgetBelowMinimums };
+    }
+
+    for (const debt of active) {
+      const accrued = debt.balance * debt.rate;
+      debt.balance += accrued;
+      debt.interest += accrued;
+    }
+
+    const date = start.add(day, 'day');
+    // Same payment days as the projection, so both agree on when a debt is paid off
+    const due = active.filter((debt) => isPaymentDay(debt.schedule, date));
+    if (strategy) {
+      due.sort((a, b) => compareDebts(strategy, a, b));
+    }
+
+    const payments = new Map<SimulatedDebt, number>();
+    let available = strategy ? dailyBudget : Infinity;
+
+    // Minimums first, in strategy order so the most important debts get them when money is short
+    const minimumsNeeded = due.reduce((sum, debt) => sum + Math.min(debt.balance, debt.summary.constants.minDailyPayment), 0);
+    if (minimumsNeeded > available + 1e-9) {
+      budgetBelowMinimums = true;
+    }
+    for (const debt of due) {
+      const payment = Math.min(available, debt.balance, debt.summary.constants.minDailyPayment);
+      payments.set(debt, payment);
+      available -= payment;
+    }
+
+    // Then whatever is left, up to each debt's daily maximum
+    if (strategy) {
+      for (const debt of due) {
+        const paid = payments.get(debt) ?? 0;
+        const extra = Math.min(available, debt.balance - paid, debt.summary.constants.maxDailyPayment - paid);
+        if (extra > 0) {
+          payments.set(debt, paid + extra);
+          available -= extra;
+        }
+      }
+    }
+
+    for (const [debt, payment] of payments) {
+      if (debt.initialPayment === null) {
+        debt.initialPayment = roundCents(payment);
+      }
+      debt.balance -= payment;
+      if (debt.balance <= 0.005) {
+        debt.balance = 0;
+        debt.payoffDay = day;
+      }
+    }
+  }
+
+  return { debts, lastDay: null, budgetBelowMinimums };
+}
+
+// The baseline doesn't depend on the budget, so it is computed once per set of accounts
+export function planBaseline(accounts: AccountSummary[]): PlannerBaseline {
+  const { debts, lastDay } = simulate(accounts, 0, null);
+  return { totalInterest: debts.reduce((sum, debt) => sum + debt.interest, 0), lastDay };
+}
+
+// Allocate a fixed daily budget across every debt under one strategy
+export function planDebts(
+  accounts: AccountSummary[],
+  dailyBudget: number,
+  strategy: PlannerStrategy,
+  baseline: PlannerBaseline = planBaseline(accounts)
+): StrategyPlan {
+  const today = dayjs().startOf('day');
+  const toDate = (day: number | null) => (day === null ? null : today.add(day, 'day').format('YYYY-MM-DD'));
+
+  const plan = simulate(accounts, dailyBudget, strategy);
+
+  const debts = plan.debts.map((debt): DebtPlan => {
+    const payoffDate = toDate(debt.payoffDay);
+    const deadline = debt.summary.deadlineConfig?.enabled ? debt.summary.deadlineConfig.endDate : null;
+    return {
+      key: debt.summary.key,
+      name: debt.summary.name,
+      balance: debt.summary.balance,
+      initialPayment: debt.initialPayment ?? 0,
+      payoffDate,
+      totalInterest: roundCents(debt.interest),
+      meetsDeadline: deadline ? payoffDate !== null && payoffDate <= deadline : null,
+    };
+  });
+
+  const totalInterest = roundCents(plan.debts.reduce((sum, debt) => sum + debt.interest, 0));
+  const comparable = plan.lastDay !== null && baseline.lastDay !== null;
+
+  return {
+    strategy,
+    debts,
+    debtFreeDate: toDate(plan.lastDay),
+    totalInterest,
+    interestSaved: comparable ? roundCents(baseline.totalInterest - totalInterest) : null,
+    daysSaved: comparable ? (baseline.lastDay as number) - (plan.lastDay as number) : null,
+    budgetBelowMinimums: plan.budgetBelowMinimums,
+  };
+}
@@ -0,0 +1,158 @@
+import dayjs from 'dayjs';
+import { dailyRate } from './amortization';
+import { getPaymentDaysPerWeek, isPaymentDay, type DeadlineConfig, type InterestConfig, type PaymentSchedule } from './debt';
+
+// Stop walking the calendar after this many years, the schedule can't pay the debt off
+const MAX_PROJECTION_YEARS = 100;
+
+export interface ProjectionInput {
+  balance: number;
+  paymentQuantity: number;
+  schedule: PaymentSchedule;
+  // Today's payment was already made, so the walk starts tomorrow
+  paidToday: boolean;
+  deadlineConfig?: DeadlineConfig | null;
+  // When set, interest accrues daily on the remaining balance
+  interest?: InterestConfig | null;
+}
+
+export interface DeadlineComparison {
+  endDate: string;
+  meetsDeadline: boolean;
+  // Days between the payoff date and the deadline: positive beats it, negative misses it
+  daysDifference: number;
+}
+
+export interface PayoffProjection {
+  payoffDate: string;
+  paymentsLeft: number;
+  totalMonths: number;
+  totalInterest: number;
+  deadline: DeadlineComparison | null;
+}
+
+// One projected payment; amounts are not rounded
+export interface ProjectedPayment {
+  date: string;
+  payment: number;
+  // Interest accrued since the previous payment
+  interest: number;
+  // Balance left after this payment
+  balance: number;
+}
+
+// Walk the real payment calendar from today until the balance is paid off, listing every payment.
+// Returns null when the schedule can never finish (no payment days or amount).
+export function projectPaymentSchedule({ balance, paymentQuantity, schedule, paidToday, interest }: ProjectionInput): ProjectedPayment[] | null {
+  const paymentDaysPerWeek = getPaymentDaysPerWeek(schedule);
+  if (paymentQuantity <= 0 || paymentDaysPerWeek === 0) {
+    return null;
+  }
+
+  const rate = interest ? dailyRate(interest) : 0;
+  // A week of payments that doesn't even cover a week of interest never pays the debt off
+  if (balance > 0 && (paymentQuantity * paymentDaysPerWeek) / 7 <= balance * rate) {
+    return null;
+  }
+
+  const today = dayjs().startOf('day');
+  const payments: ProjectedPayment[] = [];
+  let remaining = Math.max(0, balance);
+  let accruedSincePayment = 0;
+  let currentDate = paidToday ? today.add(1, 'day') : today;
+  const limit = today.add(MAX_PROJECTION_YEARS, 'year');
+
+  while (remaining > 0.005) {
+    if (currentDate.isAfter(limit)) {
+      return null;
+    }
+    const accrued = remaining * rate;
+    remaining += accrued;
+    accruedSincePayment += accrued;
+    if (isPaymentDay(schedule, currentDate)) {
+      // The last payment only covers what is left
+      const payment = Math.min(paymentQuantity, remaining);
+      remaining -= payment;
+      payments.push({ date: currentDate.format('YYYY-MM-DD'), payment, interest: accruedSincePayment, balance: remaining });
+      accruedSincePayment = 0;
+    }
+    currentDate = currentDate.add(1, 'day');
+  }
+  return payments;
+}
+
+// Payoff date, payments left and interest of the projected schedule, compared with the deadline
+export function projectPayoff(input: ProjectionInput): PayoffProjection | null {
+  const payments = projectPaymentSchedule(input);
+  if (!payments) {
+    return null;
+  }
+
+  const { deadlineConfig } = input;
+  const today = dayjs().startOf('day');
+  const payoff = payments.length > 0 ? dayjs(payments[payments.length - 1].date) : today;
+  const paymentsLeft = payments.length;
+  const totalInterest = payments.reduce((sum, payment) => sum + payment.interest, 0);
+
+  let deadline: DeadlineComparison | null = null;
+  if (deadlineConfig && deadlineConfig.enabled) {
+    const daysDifference = dayjs(deadlineConfig.endDate).startOf('day').diff(payoff, 'day');
+    deadline = {
+      endDate: deadlineConfig.endDate,
+      meetsDeadline: daysDifference >= 0,
+      daysDifference,
+    };
+  }
+
+  return {
+    payoffDate: payoff.format('YYYY-MM-DD'),
+    paymentsLeft,
+    totalMonths: Math.round(payoff.diff(today, 'month', true) * 10) / 10,
+    totalInterest: Math.round(totalInterest * 100) / 100,
+    deadline,
+  };
+}
+
+export interface RequiredPaymentInput {
+  balance: number;
+  paymentDaysRemaining: number;
+  minDailyPayment: number;
+  maxDailyPayment: number;
+}
+
+export interface RequiredPayment {
+  // Exact amount per payment day that clears the balance on the deadline
+  requiredAmount: number;
+  // requiredAmount clamped to the configured min/max daily payment
+  recommendedAmount: number;
+  achievable: boolean;
+  // Balance still owed at the deadline when paying the max every day
+  shortfall: number;
+}
+
+// Round up to the cent so the recommendation never falls short
+function ceilToCents(amount: number): number {
+  return Math.ceil(Math.round(amount * 1000) / 10) / 100;
+}
+
+// How much to pay per remaining payment day to finish by the deadline
+export function calculateRequiredPayment({ balance, paymentDaysRemaining, minDailyPayment, maxDailyPayment }: RequiredPaymentInput): RequiredPayment {
+  if (balance <= 0) {
+    return { requiredAmount: 0, recommendedAmount: 0, achievable: true, shortfall: 0 };
+  }
+
+  if (paymentDaysRemaining <= 0) {
+    return { requiredAmount: balance, recommendedAmount: maxDailyPayment, achievable: false, shortfall: balance };
+  }
+
+  const requiredAmount = ceilToCents(balance / paymentDaysRemaining);
+  const recommendedAmount = Math.min(maxDailyPayment, Math.max(minDailyPayment, requiredAmount));
+  const shortfall = Math.max(0, balance - maxDailyPayment * paymentDaysRemaining);
+
+  return {
+    requiredAmount,
+    recommendedAmount,
+    achievable: shortfall === 0,
+    shortfall: Math.round(shortfall * 100) / 100,
+  };
+}
@@ -0,0 +1,54 @@
+import { deletePushSubscription, fetchPushPublicKey, savePushSubscription } from './api';
+
+// Browser-side subscription to the server's push reminders, through the service worker
+
+// VAPID keys are URL-safe base64, PushManager wants the raw bytes
+function decodeBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = `${value}${'='.repeat((4 - (value.length % 4)) % 4)}`.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+export function isPushSupported(): boolean {
+  return typeof window !== 'undefined' && 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+}
+
+// The service worker is only registered in production builds (see ServiceWorkerRegistration)
+async function getRegistration(): Promise<ServiceWorkerRegistration> {
+  const registration = await navigator.serviceWorker.getRegistration();
+  if (!registration) {
+    throw new Error('Las notificaciones push necesitan la app en modo producción (npm run build && npm start).');
+  }
+  return registration;
+}
+
+// This browser's current subscription, null when it never subscribed or push is unavailable
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration();
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+export async function subscribeToPush(): Promise<PushSubscription> {
+  const { publicKey } = await fetchPushPublicKey();
+  if (!publicKey) {
+    throw new Error('El servidor no tiene configuradas las notificaciones push (VAPID_PUBLIC_KEY y VAPID_PRIVATE_KEY).');
+  }
+  if (await Notification.requestPermission() !== 'granted') {
+    throw new Error('El navegador no dio permiso para mostrar notificaciones.');
+  }
+
+  const registration = await getRegistration();
+  const subscription = await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: decodeBase64Url(publicKey),
+  });
+  await savePushSubscription(subscription.toJSON());
+  return subscription;
+}
+
+export async function unsubscribeFromPush(): Promise<void> {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+  await deletePushSubscription(subscription.endpoint);
+  await subscription.unsubscribe();
+}
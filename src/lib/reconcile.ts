@@ -0,0 +1,76 @@
+import dayjs from 'dayjs';
+import type { PaymentHistoryItem } from './debt';
+
+// Source value for statements of the debt account itself, instead of a payment method's account
+export const DEBT_ACCOUNT_SOURCE = 'account';
+
+// Banks often post a payment a day or two after it was made
+export const DEFAULT_TOLERANCE_DAYS = 2;
+
+export interface StatementLine {
+  // Row in the original file, 1-based and counting the header, for pointing at problems
+  row: number;
+  date: string;
+  amount: number;
+  description: string;
+}
+
+export interface ReconciliationMatch {
+  line: StatementLine;
+  transaction: PaymentHistoryItem;
+}
+
+export interface ReconciliationResult {
+  matches: ReconciliationMatch[];
+  // Statement lines with no payment registered in YNAB
+  unmatchedLines: StatementLine[];
+  // Payments registered in YNAB within the statement's dates that the statement doesn't show
+  unmatchedTransactions: PaymentHistoryItem[];
+}
+
+export interface ReconcileRequest {
+  source: string;
+  lines: StatementLine[];
+  toleranceDays?: number;
+}
+
+// Pair each statement line with a payment of the same amount, preferring the closest date.
+// Every payment is used at most once; lines are taken oldest first.
+export function matchStatement(
+  lines: StatementLine[],
+  payments: PaymentHistoryItem[],
+  toleranceDays = DEFAULT_TOLERANCE_DAYS
+): ReconciliationResult {
+  const available = [...payments];
+  const matches: ReconciliationMatch[] = [];
+  const unmatchedLines: StatementLine[] = [];
+
+  for (const line of [...lines].sort((a, b) => a.date.localeCompare(b.date) || a.row - b.row)) {
+    let bestIndex = -1;
+    let bestDistance = Infinity;
+    for (let index = 0; index < available.length; index++) {
+      const payment = available[index];
+      if (Math.round(payment.amount * 100) !== Math.round(line.amount * 100)) continue;
+      const distance = Math.abs(dayjs(payment.date).diff(dayjs(line.date), 'day'));
+      if (distance <= toleranceDays && distance < bestDistance) {
+        bestIndex = index;
+        bestDistance = distance;
+      }
+    }
+
+    if (bestIndex >= 0) {
+      const [transaction] = available.splice(bestIndex, 1);
+      matches.push({ line, transaction });
+    } else {
+      unmatchedLines.push(line);
+    }
+  }
+
+  // Only payments the statement could have covered are reported as missing from it
+  const dates = lines.map((line) => line.date).sort();
+  const unmatchedTransactions = dates.length === 0 ? [] : available.filter((payment) => (
+    payment.date >= dates[0] && payment.date <= dates[dates.length - 1]
+  ));
+
+  return { matches, unmatchedLines, unmatchedTransactions };
+}
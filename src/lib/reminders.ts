@@ -0,0 +1,251 @@
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import path from 'path';
+import dayjs from 'dayjs';
+import { getAccountConfigs } from './config';
+import { getPaymentSchedule, isPaymentDay, isPaymentPendingOn, madePaymentOn, type AccountConfig, type PaymentHistoryItem, type QuietHours } from './debt';
+import { getConfiguredChannels, REMINDER_STATE_DIR, type NotificationChannel, type ReminderNotification } from './notifications';
+import { projectPayoff } from './projection';
+import { getReminderSnapshot } from './ynab';
+
+const LOG_PATH = path.join(REMINDER_STATE_DIR, 'sent.json');
+
+// The scheduler looks at every account once a minute; YNAB is only asked after the cutoff
+const CHECK_INTERVAL_MS = 60_000;
+
+// After a failed attempt (YNAB or every channel down), wait this long before trying again
+const RETRY_MINUTES = 15;
+
+// What the reminder check already did for an account on a given day
+interface ReminderLogEntry {
+  date: string;
+  // Last notification delivered that day, ISO timestamp
+  sentAt: string | null;
+  // Last time YNAB was asked about that day, ISO timestamp. Escalation waits repeatMinutes
+  // between looks, and a failed attempt waits RETRY_MINUTES.
+  checkedAt?: string | null;
+  // Nothing left to remind that day: the payment was recorded or it is not a payment day
+  settled: boolean;
+}
+
+type ReminderLog = Record<string, ReminderLogEntry>;
+
+export interface ReminderCheckResult {
+  accountKey: string;
+  status: 'sent' | 'skipped' | 'failed';
+  reason: string;
+  // Channels that delivered the reminder
+  channels?: string[];
+  errors?: string[];
+}
+
+const formatCurrency = (amount: number) =>
+  `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+async function readLog(): Promise<ReminderLog> {
+  try {
+    return JSON.parse(await fs.readFile(LOG_PATH, 'utf8')) as ReminderLog;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Error reading reminder log:', error);
+    }
+    return {};
+  }
+}
+
+async function writeLog(log: ReminderLog) {
+  await fs.mkdir(REMINDER_STATE_DIR, { recursive: true });
+  const tempPath = `${LOG_PATH}.${randomUUID()}.tmp`;
+  try {
+    await fs.writeFile(tempPath, JSON.stringify(log, null, 2), 'utf8');
+    await fs.rename(tempPath, LOG_PATH);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+// HH:mm strings compare correctly as text; ranges like 22:00-07:00 wrap past midnight
+export function isQuietTime(quietHours: QuietHours | undefined, time: string): boolean {
+  if (!quietHours) return false;
+  const { start, end } = quietHours;
+  return start < end ? time >= start && time < end : time >= start || time < end;
+}
+
+// The current payment plan finishes after the deadline, or never finishes
+function isDeadlineAtRisk(config: AccountConfig, balance: number, history: PaymentHistoryItem[]): boolean {
+  const { deadlineConfig } = config;
+  if (!deadlineConfig?.enabled || balance <= 0) return false;
+
+  const projection = projectPayoff({
+    balance,
+    paymentQuantity: config.constants.paymentQuantity,
+    schedule: getPaymentSchedule(config.constants),
+    paidToday: madePaymentOn(history, dayjs().format('YYYY-MM-DD')),
+    deadlineConfig,
+    interest: config.interest,
+  });
+  return projection?.deadline?.meetsDeadline !== true;
+}
+
+function buildNotification(key: string, config: AccountConfig, date: string, atRisk: boolean): ReminderNotification {
+  const body = `Hoy (${dayjs(date).format('DD/MM/YYYY')}) es día de pago y no hay nada registrado. Monto sugerido: ${formatCurrency(config.constants.paymentQuantity)}.`;
+  const risk = atRisk && config.deadlineConfig
+    ? ` Al ritmo actual no terminarás antes de la fecha límite del ${dayjs(config.deadlineConfig.endDate).format('DD/MM/YYYY')}.`
+    : '';
+  return {
+    accountKey: key,
+    accountName: config.name,
+    date,
+    title: `${atRisk ? '⚠️ ' : ''}Pago pendiente: ${config.name}`,
+    body: `${body}${risk}`,
+    url: `/?account=${encodeURIComponent(key)}`,
+    urgent: atRisk,
+  };
+}
+
+// Deliver through every channel, succeeding when at least one of them did
+async function deliver(channels: NotificationChannel[], notification: ReminderNotification) {
+  const results = await Promise.allSettled(channels.map((channel) => channel.send(notification)));
+  const delivered: string[] = [];
+  const errors: string[] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      delivered.push(channels[index].name);
+    } else {
+      const reason = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      console.error(`Error sending ${channels[index].name} reminder:`, result.reason);
+      errors.push(`${channels[index].name}: ${reason}`);
+    }
+  });
+  return { delivered, errors };
+}
+
+// Decide and send today's reminder for one account, updating its log entry in place.
+// Escalation repeats the reminder every `repeatMinutes` while the deadline is at risk.
+async function checkAccount(key: string, config: AccountConfig, entry: ReminderLogEntry, now: dayjs.Dayjs): Promise<ReminderCheckResult> {
+  const skip = (reason: string): ReminderCheckResult => ({ accountKey: key, status: 'skipped', reason });
+  const { reminders } = config;
+  const today = now.format('YYYY-MM-DD');
+  const time = now.format('HH:mm');
+
+  if (!reminders?.enabled) return skip('Reminders are off');
+  if (entry.settled) return skip('Nothing pending today');
+  if (time < reminders.cutoffTime) return skip(`Waiting for the cutoff time (${reminders.cutoffTime})`);
+  if (isQuietTime(reminders.quietHours, time)) return skip('Quiet hours');
+
+  const channels = getConfiguredChannels(reminders.channels);
+  if (channels.length === 0) {
+    return { accountKey: key, status: 'failed', reason: 'No notification channel is configured' };
+  }
+
+  const escalation = reminders.escalation?.enabled ? reminders.escalation : null;
+  if (entry.sentAt) {
+    // Counted from the last look at YNAB, so a deadline that is not at risk doesn't mean a sync every minute
+    const lastLook = entry.checkedAt ?? entry.sentAt;
+    if (!escalation || now.diff(dayjs(lastLook), 'minute') < escalation.repeatMinutes) {
+      return skip('Already reminded');
+    }
+  } else if (entry.checkedAt && now.diff(dayjs(entry.checkedAt), 'minute') < RETRY_MINUTES) {
+    // Looked before without sending anything, so the last attempt failed
+    return skip(`Waiting ${RETRY_MINUTES} minutes to retry`);
+  }
+
+  const schedule = getPaymentSchedule(config.constants);
+  if (!isPaymentDay(schedule, today)) {
+    entry.settled = true;
+    return skip('Not a payment day');
+  }
+
+  // Set before asking, so YNAB failing backs off too
+  entry.checkedAt = now.toISOString();
+  const { balance, history } = await getReminderSnapshot(config);
+  if (!isPaymentPendingOn(schedule, history, today)) {
+    entry.settled = true;
+    return skip('Payment already recorded');
+  }
+
+  const atRisk = escalation !== null && isDeadlineAtRisk(config, balance, history);
+  if (entry.sentAt && !atRisk) return skip('Already reminded');
+
+  const { delivered, errors } = await deliver(channels, buildNotification(key, config, today, atRisk));
+  if (delivered.length === 0) {
+    return { accountKey: key, status: 'failed', reason: 'Every channel failed', errors };
+  }
+  entry.sentAt = now.toISOString();
+  return { accountKey: key, status: 'sent', reason: atRisk ? 'Deadline at risk' : 'Payment pending', channels: delivered, errors };
+}
+
+let activeCheck: Promise<ReminderCheckResult[]> | null = null;
+
+async function runReminderCheck(now: dayjs.Dayjs): Promise<ReminderCheckResult[]> {
+  const configs = await getAccountConfigs();
+  const log = await readLog();
+  const today = now.format('YYYY-MM-DD');
+
+  const results: ReminderCheckResult[] = [];
+  let changed = false;
+  for (const [key, config] of Object.entries(configs)) {
+    const entry: ReminderLogEntry = log[key]?.date === today
+      ? { ...log[key] }
+      : { date: today, sentAt: null, checkedAt: null, settled: false };
+    try {
+      results.push(await checkAccount(key, config, entry, now));
+    } catch (error) {
+      console.error(`Error checking reminders for ${key}:`, error);
+      results.push({ accountKey: key, status: 'failed', reason: error instanceof Error ? error.message : String(error) });
+    }
+    if (JSON.stringify(entry) !== JSON.stringify(log[key])) {
+      log[key] = entry;
+      changed = true;
+    }
+  }
+
+  // Forget accounts that were removed from the configuration
+  for (const key of Object.keys(log)) {
+    if (!configs[key]) {
+      delete log[key];
+      changed = true;
+    }
+  }
+  // Most checks change nothing, so the log is only rewritten when an entry did
+  if (changed) {
+    await writeLog(log);
+  }
+  return results;
+}
+
+// Check every account once; a check already running is shared instead of started twice
+export function checkReminders(now = dayjs()): Promise<ReminderCheckResult[]> {
+  if (!activeCheck) {
+    activeCheck = runReminderCheck(now).finally(() => { activeCheck = null; });
+  }
+  return activeCheck;
+}
+
+// Sample reminder through every configured channel, to try the setup
+export async function sendTestNotification(): Promise<{ delivered: string[]; errors: string[] }> {
+  const channels = getConfiguredChannels();
+  if (channels.length === 0) {
+    return { delivered: [], errors: ['No notification channel is configured'] };
+  }
+  return deliver(channels, {
+    accountKey: 'test',
+    accountName: 'Prueba',
+    date: dayjs().format('YYYY-MM-DD'),
+    title: 'Recordatorio de prueba',
+    body: 'Así se verán los recordatorios de pagos pendientes.',
+    url: '/',
+    urgent: false,
+  });
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+// Started once per server process from src/instrumentation.ts
+export function startReminderScheduler() {
+  if (schedulerTimer) return;
+  schedulerTimer = setInterval(() => {
+    checkReminders().catch((error) => console.error('Error running reminder check:', error));
+  }, CHECK_INTERVAL_MS);
+}
@@ -0,0 +1,73 @@
+import dayjs from 'dayjs';
+import type { ScheduledTransactionFrequency } from 'ynab';
+import { isPaymentDay, type PaymentSchedule } from './debt';
+
+// Marks the YNAB scheduled transactions this app owns, so syncing never touches the user's own
+export const SCHEDULED_PAYMENT_MEMO = '[debt-tracker] Pago programado';
+
+// Intervals YNAB can repeat on its own
+const INTERVAL_FREQUENCIES: Record<number, ScheduledTransactionFrequency> = {
+  1: 'daily',
+  7: 'weekly',
+  14: 'everyOtherWeek',
+  28: 'every4Weeks',
+};
+
+// One YNAB scheduled transaction of the plan: how often it repeats and its next date
+export interface ScheduledRecurrence {
+  frequency: ScheduledTransactionFrequency;
+  date: string;
+}
+
+// Identifies the same recurrence across syncs even after YNAB moved its next date forward
+export function recurrenceSlot(frequency: string, date: string): string {
+  const day = dayjs(date);
+  switch (frequency) {
+    case 'weekly':
+      return `weekly:${day.day()}`;
+    case 'monthly':
+      return `monthly:${day.date()}`;
+    default:
+      return frequency;
+  }
+}
+
+// First scheduled day after today, ignoring exclusions (YNAB can't skip single dates)
+function nextScheduledDay(schedule: PaymentSchedule, matches: (day: dayjs.Dayjs) => boolean = () => true): string {
+  const plain = { ...schedule, exclusions: undefined };
+  let day = dayjs().add(1, 'day');
+  while (!(isPaymentDay(plain, day) && matches(day))) {
+    day = day.add(1, 'day');
+  }
+  return day.format('YYYY-MM-DD');
+}
+
+// The YNAB scheduled transactions that repeat a payment schedule, starting tomorrow.
+// Returns null for intervals YNAB has no frequency for (e.g. every 10 days).
+export function getScheduledRecurrences(schedule: PaymentSchedule): ScheduledRecurrence[] | null {
+  switch (schedule.type) {
+    case 'weekdays':
+      if (schedule.weekdays.length === 7) {
+        return [{ frequency: 'daily', date: nextScheduledDay(schedule) }];
+      }
+      return [...schedule.weekdays].sort((a, b) => a - b).map((weekday) => ({
+        frequency: 'weekly',
+        date: nextScheduledDay(schedule, (day) => day.day() === weekday),
+      }));
+    case 'monthDays': {
+      // Days past the end of a month land on its last day, and YNAB keeps that day from then on
+      const recurrences = [...schedule.days].sort((a, b) => a - b).map((monthDay): ScheduledRecurrence => ({
+        frequency: 'monthly',
+        date: nextScheduledDay(schedule, (day) => day.date() === Math.min(monthDay, day.daysInMonth())),
+      }));
+      // 30 and 31 can fall on the same date this month
+      return recurrences.filter((recurrence, index) => (
+        recurrences.findIndex((other) => other.date === recurrence.date) === index
+      ));
+    }
+    case 'interval': {
+      const frequency = INTERVAL_FREQUENCIES[schedule.everyDays];
+      return frequency ? [{ frequency, date: nextScheduledDay(schedule) }] : null;
+    }
+  }
+}
@@ -0,0 +1,182 @@
+import dayjs from 'dayjs';
+import type { StatementLine } from './reconcile';
+
+// Browser-side reading of bank and wallet statement exports
+const STORAGE_KEY = 'debt-tracker:statement-mappings';
+
+export const STATEMENT_DATE_FORMATS = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY'] as const;
+
+export type StatementDateFormat = typeof STATEMENT_DATE_FORMATS[number];
+
+// Which columns of a statement hold what, remembered per source
+export interface StatementMapping {
+  dateColumn: string;
+  amountColumn: string;
+  descriptionColumn: string; // Empty when the statement has none
+  dateFormat: StatementDateFormat;
+  // Keep only negative amounts, for statements that list money in and out together
+  outflowsOnly: boolean;
+}
+
+export interface ParsedStatement {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface StatementReadResult {
+  lines: StatementLine[];
+  // One message per row that could not be read
+  errors: string[];
+  // Rows left out on purpose: zero amounts, and money in when only outflows are kept
+  skipped: number;
+}
+
+// Split CSV text into rows, honouring quotes. Comma or semicolon, whichever the header uses more.
+export function parseStatementCsv(text: string): ParsedStatement {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const nonEmpty = rows.filter((cells) => cells.some((cell) => cell.trim()));
+  const [headers = [], ...data] = nonEmpty;
+  return { headers: headers.map((header) => header.trim()), rows: data };
+}
+
+// "1.234,56", "$1,234.56" and "-25.00" all become numbers; the last separator is the decimal one.
+// Anything without a digit is NaN rather than 0, so it gets reported instead of skipped.
+function parseAmount(value: string): number {
+  const cleaned = value.replace(/[^\d.,-]/g, '');
+  if (!/\d/.test(cleaned)) return NaN;
+  const lastSeparator = Math.max(cleaned.lastIndexOf('.'), cleaned.lastIndexOf(','));
+  if (lastSeparator === -1) return Number(cleaned);
+
+  const decimals = cleaned.slice(lastSeparator + 1);
+  const whole = cleaned.slice(0, lastSeparator).replace(/[.,]/g, '');
+  // With a single kind of separator, three digits after it mean thousands ("1,234" or "1.234.567")
+  const otherSeparator = cleaned[lastSeparator] === '.' ? ',' : '.';
+  if (decimals.length === 3 && !cleaned.includes(otherSeparator)) {
+    return Number(`${whole}${decimals}`);
+  }
+  return Number(`${whole}.${decimals}`);
+}
+
+function parseDate(value: string, format: StatementDateFormat): string | null {
+  const parts = value.trim().split(/[\sT]/)[0].split(/[-/.]/);
+  if (parts.length !== 3) return null;
+
+  const [year, month, day] = format === 'YYYY-MM-DD'
+    ? parts
+    : format === 'DD/MM/YYYY' ? [parts[2], parts[1], parts[0]] : [parts[2], parts[0], parts[1]];
+  const date = `${year.padStart(4, '20')}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  return dayjs(date).format('YYYY-MM-DD') === date ? date : null;
+}
+
+// Turn the mapped columns into statement lines, reporting rows that don't make sense
+export function readStatement({ headers, rows }: ParsedStatement, mapping: StatementMapping): StatementReadResult {
+  const dateIndex = headers.indexOf(mapping.dateColumn);
+  const amountIndex = headers.indexOf(mapping.amountColumn);
+  const descriptionIndex = mapping.descriptionColumn ? headers.indexOf(mapping.descriptionColumn) : -1;
+  if (dateIndex === -1 || amountIndex === -1) {
+    return { lines: [], errors: ['Elige las columnas de fecha y monto.'], skipped: 0 };
+  }
+
+  const lines: StatementLine[] = [];
+  const errors: string[] = [];
+  let skipped = 0;
+  rows.forEach((cells, index) => {
+    const row = index + 2; // The header is row 1
+    const date = parseDate(cells[dateIndex] ?? '', mapping.dateFormat);
+    const amount = parseAmount(cells[amountIndex] ?? '');
+    if (!date) {
+      errors.push(`Fila ${row}: fecha "${cells[dateIndex] ?? ''}" no coincide con el formato ${mapping.dateFormat}.`);
+      return;
+    }
+    if (!(cells[amountIndex] ?? '').trim()) {
+      errors.push(`Fila ${row}: no tiene monto.`);
+      return;
+    }
+    if (!Number.isFinite(amount)) {
+      errors.push(`Fila ${row}: monto "${cells[amountIndex] ?? ''}" no es un número.`);
+      return;
+    }
+    if (amount === 0 || (mapping.outflowsOnly && amount > 0)) {
+      skipped++;
+      return;
+    }
+
+    lines.push({
+      row,
+      date,
+      amount: Math.round(Math.abs(amount) * 100) / 100,
+      description: descriptionIndex >= 0 ? (cells[descriptionIndex] ?? '').trim() : '',
+    });
+  });
+  return { lines, errors, skipped };
+}
+
+function readMappings(): Record<string, StatementMapping> {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) as Record<string, StatementMapping> : {};
+  } catch (error) {
+    console.error('Error reading statement mappings:', error);
+    return {};
+  }
+}
+
+// The mapping last used for a source, e.g. "Yappy"
+export function getStatementMapping(source: string): StatementMapping | null {
+  return readMappings()[source] ?? null;
+}
+
+export function saveStatementMapping(source: string, mapping: StatementMapping) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readMappings(), [source]: mapping }));
+}
+
+// Best guess for a statement never seen before, from common header names
+export function guessStatementMapping(headers: string[]): StatementMapping {
+  const find = (pattern: RegExp) => headers.find((header) => pattern.test(header)) ?? '';
+  return {
+    dateColumn: find(/fecha|date/i),
+    amountColumn: find(/monto|importe|amount|valor|d[ée]bito/i),
+    descriptionColumn: find(/descrip|concepto|detalle|description|memo/i),
+    dateFormat: 'DD/MM/YYYY',
+    outflowsOnly: false,
+  };
+}
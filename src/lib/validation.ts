@@ -0,0 +1,406 @@
+import dayjs from 'dayjs';
+import { COMPOUNDING_PERIODS, PAYMENT_METHOD_COLORS, REMINDER_CHANNELS, SCHEDULE_TYPES, type AccountConfig, type PaymentMethodColor, type ReminderChannel } from './debt';
+
+// Shape of the account configuration file (config/accounts.json)
+export interface AccountsFile {
+  accounts: Record<string, AccountConfig>;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ACCOUNT_KEY_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+// Checks a YYYY-MM-DD string that also round-trips as a real calendar date
+export function isValidDate(value: unknown): value is string {
+  return typeof value === 'string' && DATE_PATTERN.test(value) && dayjs(value).format('YYYY-MM-DD') === value;
+}
+
+// Checks a 24-hour HH:mm time of day
+export function isValidTime(value: unknown): value is string {
+  return typeof value === 'string' && TIME_PATTERN.test(value);
+}
+
+// Account keys end up in URLs (?account=taxi), so keep them slug-like
+export function isValidAccountKey(key: string): boolean {
+  return ACCOUNT_KEY_PATTERN.test(key);
+}
+
+function validateWeekdays(weekdays: unknown, path: string): string[] {
+  if (!Array.isArray(weekdays)) {
+    return [`${path}: must be an array of weekdays (0 = Sunday ... 6 = Saturday)`];
+  }
+  const issues: string[] = [];
+  weekdays.forEach((day, index) => {
+    if (!Number.isInteger(day) || day < 0 || day > 6) {
+      issues.push(`${path}[${index}]: unknown weekday ${JSON.stringify(day)} (expected 0 = Sunday ... 6 = Saturday)`);
+    } else if (weekdays.indexOf(day) !== index) {
+      issues.push(`${path}[${index}]: weekday ${day} is repeated`);
+    }
+  });
+  return issues;
+}
+
+function validateSchedule(schedule: unknown, path: string): string[] {
+  if (!isObject(schedule)) {
+    return [`${path}: must be an object`];
+  }
+  const issues: string[] = [];
+
+  switch (schedule.type) {
+    case 'weekdays':
+      issues.push(...validateWeekdays(schedule.weekdays, `${path}.weekdays`));
+      if (Array.isArray(schedule.weekdays) && schedule.weekdays.length === 0) {
+        issues.push(`${path}.weekdays: must include at least one weekday`);
+      }
+      break;
+    case 'monthDays':
+      if (!Array.isArray(schedule.days) || schedule.days.length === 0) {
+        issues.push(`${path}.days: must be a non-empty array of days of the month (1-31)`);
+      } else {
+        const days = schedule.days;
+        days.forEach((day, index) => {
+          if (!Number.isInteger(day) || day < 1 || day > 31) {
+            issues.push(`${path}.days[${index}]: unknown day of the month ${JSON.stringify(day)} (expected 1-31)`);
+          } else if (days.indexOf(day) !== index) {
+            issues.push(`${path}.days[${index}]: day ${day} is repeated`);
+          }
+        });
+      }
+      break;
+    case 'interval':
+      if (!Number.isInteger(schedule.everyDays) || (schedule.everyDays as number) < 1) {
+        issues.push(`${path}.everyDays: must be a whole number of at least 1`);
+      }
+      if (!isValidDate(schedule.anchorDate)) {
+        issues.push(`${path}.anchorDate: ${JSON.stringify(schedule.anchorDate)} is not a valid YYYY-MM-DD date`);
+      }
+      break;
+    default:
+      issues.push(`${path}.type: unknown schedule type ${JSON.stringify(schedule.type)} (expected one of: ${SCHEDULE_TYPES.join(', ')})`);
+  }
+
+  if (schedule.exclusions !== undefined) {
+    if (!Array.isArray(schedule.exclusions)) {
+      issues.push(`${path}.exclusions: must be an array`);
+    } else {
+      schedule.exclusions.forEach((exclusion: unknown, index) => {
+        const exclusionPath = `${path}.exclusions[${index}]`;
+        if (!isObject(exclusion)) {
+          issues.push(`${exclusionPath}: must be an object`);
+          return;
+        }
+        if (!isValidDate(exclusion.from)) {
+          issues.push(`${exclusionPath}.from: ${JSON.stringify(exclusion.from)} is not a valid YYYY-MM-DD date`);
+        }
+        if (exclusion.to !== undefined) {
+          if (!isValidDate(exclusion.to)) {
+            issues.push(`${exclusionPath}.to: ${JSON.stringify(exclusion.to)} is not a valid YYYY-MM-DD date`);
+          } else if (isValidDate(exclusion.from) && exclusion.to < exclusion.from) {
+            issues.push(`${exclusionPath}: ends (${exclusion.to}) before it starts (${exclusion.from})`);
+          }
+        }
+        if (exclusion.reason !== undefined && typeof exclusion.reason !== 'string') {
+          issues.push(`${exclusionPath}.reason: must be a string`);
+        }
+      });
+    }
+  }
+  return issues;
+}
+
+function validatePaymentMethod(method: unknown, path: string): string[] {
+  if (!isObject(method)) {
+    return [`${path}: must be an object`];
+  }
+  const issues: string[] = [];
+
+  if (typeof method.name !== 'string' || !method.name.trim()) {
+    issues.push(`${path}.name: must be a non-empty string`);
+  }
+  if (method.label !== undefined && typeof method.label !== 'string') {
+    issues.push(`${path}.label: must be a string`);
+  }
+  if (method.color !== undefined && !PAYMENT_METHOD_COLORS.includes(method.color as PaymentMethodColor)) {
+    issues.push(`${path}.color: must be one of ${PAYMENT_METHOD_COLORS.join(', ')}`);
+  }
+  // null is the explicit choice of a plain payment without a payment account
+  if (method.accountId !== null && (typeof method.accountId !== 'string' || !UUID_PATTERN.test(method.accountId))) {
+    issues.push(`${path}.accountId: must be a YNAB account UUID, or null for a payment without an account`);
+  }
+
+  const { minPayment, maxPayment } = method;
+  if (minPayment !== undefined && (!isNumber(minPayment) || minPayment < 0)) {
+    issues.push(`${path}.minPayment: must be a number of at least 0`);
+  }
+  if (maxPayment !== undefined && (!isNumber(maxPayment) || maxPayment <= 0)) {
+    issues.push(`${path}.maxPayment: must be a number greater than 0`);
+  }
+  if (isNumber(minPayment) && isNumber(maxPayment) && minPayment > maxPayment) {
+    issues.push(`${path}: minPayment (${minPayment}) cannot be greater than maxPayment (${maxPayment})`);
+  }
+
+  if (method.fee !== undefined) {
+    const fee = method.fee;
+    if (method.accountId === null) {
+      issues.push(`${path}.fee: needs an accountId to charge the fee to`);
+    }
+    if (!isObject(fee)) {
+      issues.push(`${path}.fee: must be an object`);
+    } else {
+      if (fee.fixed !== undefined && (!isNumber(fee.fixed) || fee.fixed < 0)) {
+        issues.push(`${path}.fee.fixed: must be a number of at least 0`);
+      }
+      if (fee.percent !== undefined && (!isNumber(fee.percent) || fee.percent < 0 || fee.percent > 100)) {
+        issues.push(`${path}.fee.percent: must be a percentage between 0 and 100`);
+      }
+    }
+  }
+  return issues;
+}
+
+function validateReminders(reminders: unknown, path: string): string[] {
+  if (!isObject(reminders)) {
+    return [`${path}: must be an object`];
+  }
+  const issues: string[] = [];
+
+  if (typeof reminders.enabled !== 'boolean') {
+    issues.push(`${path}.enabled: must be true or false`);
+  }
+  if (!isValidTime(reminders.cutoffTime)) {
+    issues.push(`${path}.cutoffTime: ${JSON.stringify(reminders.cutoffTime)} is not a valid HH:mm time`);
+  }
+
+  if (reminders.quietHours !== undefined) {
+    const quietHours = reminders.quietHours;
+    if (!isObject(quietHours)) {
+      issues.push(`${path}.quietHours: must be an object with start and end times`);
+    } else {
+      for (const bound of ['start', 'end'] as const) {
+        if (!isValidTime(quietHours[bound])) {
+          issues.push(`${path}.quietHours.${bound}: ${JSON.stringify(quietHours[bound])} is not a valid HH:mm time`);
+        }
+      }
+      if (isValidTime(quietHours.start) && quietHours.start === quietHours.end) {
+        issues.push(`${path}.quietHours: start and end cannot be the same time`);
+      }
+    }
+  }
+
+  if (reminders.channels !== undefined) {
+    if (!Array.isArray(reminders.channels)) {
+      issues.push(`${path}.channels: must be an array`);
+    } else {
+      const channels = reminders.channels;
+      channels.forEach((channel, index) => {
+        if (!REMINDER_CHANNELS.includes(channel as ReminderChannel)) {
+          issues.push(`${path}.channels[${index}]: unknown channel ${JSON.stringify(channel)} (expected one of: ${REMINDER_CHANNELS.join(', ')})`);
+        } else if (channels.indexOf(channel) !== index) {
+          issues.push(`${path}.channels[${index}]: channel ${channel} is repeated`);
+        }
+      });
+    }
+  }
+
+  if (reminders.escalation !== undefined) {
+    const escalation = reminders.escalation;
+    if (!isObject(escalation)) {
+      issues.push(`${path}.escalation: must be an object`);
+    } else {
+      if (typeof escalation.enabled !== 'boolean') {
+        issues.push(`${path}.escalation.enabled: must be true or false`);
+      }
+      if (!Number.isInteger(escalation.repeatMinutes) || (escalation.repeatMinutes as number) < 5) {
+        issues.push(`${path}.escalation.repeatMinutes: must be a whole number of at least 5`);
+      }
+    }
+  }
+  return issues;
+}
+
+// Validate a single account configuration, returning one message per problem
+export function validateAccountConfig(value: unknown, path = 'account'): string[] {
+  const issues: string[] = [];
+
+  if (!isObject(value)) {
+    return [`${path}: must be an object`];
+  }
+
+  if (value.budgetId !== undefined && (typeof value.budgetId !== 'string' || !UUID_PATTERN.test(value.budgetId))) {
+    issues.push(`${path}.budgetId: must be a YNAB budget UUID`);
+  }
+  if (typeof value.accountId !== 'string' || !UUID_PATTERN.test(value.accountId)) {
+    issues.push(`${path}.accountId: must be a YNAB account UUID`);
+  }
+  if (typeof value.name !== 'string' || !value.name.trim()) {
+    issues.push(`${path}.name: must be a non-empty string`);
+  }
+
+  // Payment constants
+  const constants = value.constants;
+  if (!isObject(constants)) {
+    issues.push(`${path}.constants: must be an object`);
+  } else {
+    const { paymentQuantity, minDailyPayment, maxDailyPayment, paymentDays } = constants;
+
+    if (!isNumber(paymentQuantity) || paymentQuantity <= 0) {
+      issues.push(`${path}.constants.paymentQuantity: must be a number greater than 0`);
+    }
+    if (!isNumber(minDailyPayment) || minDailyPayment < 0) {
+      issues.push(`${path}.constants.minDailyPayment: must be a number of at least 0`);
+    }
+    if (!isNumber(maxDailyPayment) || maxDailyPayment <= 0) {
+      issues.push(`${path}.constants.maxDailyPayment: must be a number greater than 0`);
+    }
+    if (isNumber(minDailyPayment) && isNumber(maxDailyPayment) && minDailyPayment > maxDailyPayment) {
+      issues.push(`${path}.constants: minDailyPayment (${minDailyPayment}) cannot be greater than maxDailyPayment (${maxDailyPayment})`);
+    }
+    if (
+      isNumber(paymentQuantity) && isNumber(minDailyPayment) && isNumber(maxDailyPayment) &&
+      minDailyPayment <= maxDailyPayment &&
+      (paymentQuantity < minDailyPayment || paymentQuantity > maxDailyPayment)
+    ) {
+      issues.push(`${path}.constants.paymentQuantity: ${paymentQuantity} must be between minDailyPayment (${minDailyPayment}) and maxDailyPayment (${maxDailyPayment})`);
+    }
+
+    issues.push(...validateWeekdays(paymentDays, `${path}.constants.paymentDays`));
+  }
+
+  // Optional schedule, replaces the paymentDays weekdays
+  if (isObject(constants) && constants.schedule !== undefined) {
+    issues.push(...validateSchedule(constants.schedule, `${path}.constants.schedule`));
+  }
+
+  // Optional deadline configuration
+  if (value.deadlineConfig !== undefined) {
+    const deadline = value.deadlineConfig;
+    if (!isObject(deadline)) {
+      issues.push(`${path}.deadlineConfig: must be an object`);
+    } else {
+      if (typeof deadline.enabled !== 'boolean') {
+        issues.push(`${path}.deadlineConfig.enabled: must be true or false`);
+      }
+      if (!isValidDate(deadline.endDate)) {
+        issues.push(`${path}.deadlineConfig.endDate: ${JSON.stringify(deadline.endDate)} is not a valid YYYY-MM-DD date`);
+      }
+      if (typeof deadline.showDaysRemaining !== 'boolean') {
+        issues.push(`${path}.deadlineConfig.showDaysRemaining: must be true or false`);
+      }
+      if (typeof deadline.description !== 'string') {
+        issues.push(`${path}.deadlineConfig.description: must be a string`);
+      }
+    }
+  }
+
+  // Optional interest terms
+  if (value.interest !== undefined) {
+    const interest = value.interest;
+    if (!isObject(interest)) {
+      issues.push(`${path}.interest: must be an object`);
+    } else {
+      if (!isNumber(interest.apr) || interest.apr < 0 || interest.apr > 100) {
+        issues.push(`${path}.interest.apr: must be an annual rate between 0 and 100`);
+      }
+      if (!COMPOUNDING_PERIODS.includes(interest.compounding as typeof COMPOUNDING_PERIODS[number])) {
+        issues.push(`${path}.interest.compounding: must be one of ${COMPOUNDING_PERIODS.join(', ')}`);
+      }
+      if (!isNumber(interest.principal) || interest.principal <= 0) {
+        issues.push(`${path}.interest.principal: must be a number greater than 0`);
+      }
+      if (!Number.isInteger(interest.termMonths) || (interest.termMonths as number) <= 0) {
+        issues.push(`${path}.interest.termMonths: must be a whole number of months greater than 0`);
+      }
+      if (!isValidDate(interest.startDate)) {
+        issues.push(`${path}.interest.startDate: ${JSON.stringify(interest.startDate)} is not a valid YYYY-MM-DD date`);
+      }
+    }
+  }
+
+  // Optional pending-payment reminders
+  if (value.reminders !== undefined) {
+    issues.push(...validateReminders(value.reminders, `${path}.reminders`));
+  }
+
+  // Optional payment methods
+  if (value.paymentMethods !== undefined) {
+    const paymentMethods = value.paymentMethods;
+    if (!Array.isArray(paymentMethods)) {
+      issues.push(`${path}.paymentMethods: must be an array of payment methods`);
+    } else {
+      paymentMethods.forEach((method, index) => {
+        issues.push(...validatePaymentMethod(method, `${path}.paymentMethods[${index}]`));
+      });
+      const names = paymentMethods.map((method) => (isObject(method) ? method.name : undefined));
+      names.forEach((name, index) => {
+        if (typeof name === 'string' && names.indexOf(name) !== index) {
+          issues.push(`${path}.paymentMethods[${index}].name: "${name}" is repeated`);
+        }
+      });
+    }
+    if (value.paymentAccounts !== undefined) {
+      issues.push(`${path}.paymentAccounts: cannot be combined with paymentMethods, move its accounts there`);
+    }
+  }
+
+  // Older form of the payment methods: method name to account
+  if (value.paymentAccounts !== undefined) {
+    const paymentAccounts = value.paymentAccounts;
+    if (!isObject(paymentAccounts)) {
+      issues.push(`${path}.paymentAccounts: must be an object mapping payment methods to YNAB account UUIDs`);
+    } else {
+      for (const [method, accountId] of Object.entries(paymentAccounts)) {
+        if (!method.trim()) {
+          issues.push(`${path}.paymentAccounts: payment method names cannot be empty`);
+        }
+        if (typeof accountId !== 'string' || !UUID_PATTERN.test(accountId)) {
+          issues.push(`${path}.paymentAccounts.${method}: must be a YNAB account UUID`);
+        }
+      }
+    }
+  }
+
+  // Optional YNAB scheduled transactions, which transfer from a payment method's account
+  if (value.ynabSchedule !== undefined) {
+    const ynabSchedule = value.ynabSchedule;
+    if (!isObject(ynabSchedule)) {
+      issues.push(`${path}.ynabSchedule: must be an object`);
+    } else {
+      if (typeof ynabSchedule.enabled !== 'boolean') {
+        issues.push(`${path}.ynabSchedule.enabled: must be true or false`);
+      }
+      const methods = Array.isArray(value.paymentMethods)
+        ? value.paymentMethods.filter((method) => isObject(method) && method.accountId).map((method) => method.name)
+        : isObject(value.paymentAccounts) ? Object.keys(value.paymentAccounts) : [];
+      if (typeof ynabSchedule.paymentMethod !== 'string' || !methods.includes(ynabSchedule.paymentMethod)) {
+        issues.push(`${path}.ynabSchedule.paymentMethod: must be a payment method with an account (${methods.join(', ') || 'none configured'})`);
+      }
+    }
+  }
+
+  return issues;
+}
+
+// Validate the whole configuration file
+export function validateAccountsFile(value: unknown): string[] {
+  if (!isObject(value) || !isObject(value.accounts)) {
+    return ['accounts: must be an object keyed by account key'];
+  }
+
+  const issues: string[] = [];
+  for (const [key, account] of Object.entries(value.accounts)) {
+    if (!isValidAccountKey(key)) {
+      issues.push(`accounts.${key}: account keys may only contain lowercase letters, digits and dashes`);
+    }
+    issues.push(...validateAccountConfig(account, `accounts.${key}`));
+  }
+  return issues;
+}
@@ -1,125 +1,65 @@
 import * as ynab from 'ynab';
 import dayjs from 'dayjs';
+import { createHash } from 'crypto';
+import {
+  buildBalanceHistory,
+  currencyToMilliunits,
+  findPaymentMethod,
+  getBalanceRangeStart,
+  getPaymentAccounts,
+  getPaymentMethodFee,
+  getPaymentMethods,
+  getPaymentSchedule,
+  getTotalPaidOn,
+  isPayment,
+  madePaymentOn,
+  milliunitsToCurrency,
+  validateMethodAmount,
+  validatePaymentAmount,
+  type AccountConfig,
+  type AccountOverview,
+  type AccountOverviewEntry,
+  type AccountSummary,
+  type BalancePoint,
+  type BalanceRange,
+  type PaymentAccounts,
+  type PaymentHistoryItem,
+  type PaymentMethodConfig,
+  type YnabAccountOption,
+  type YnabBudgetOption,
+} from './debt';
+import { HttpError } from './http';
+import { readAccountCache, writeAccountCache, type AccountCache } from './cache';
+import type { PaymentResult, PaymentUpdate, ScheduleSyncResult } from './api';
+import { computeAdherence, type AdherenceStats, type CalendarMonth } from './analytics';
+import { projectPaymentSchedule } from './projection';
+import {
+  toHistoryExportRows,
+  toScheduleExportRows,
+  type ExportOptions,
+  type HistoryExportRow,
+  type ScheduleExportRow,
+} from './export';
+import { buildPaymentCalendarFeed } from './ics';
+import { getScheduledRecurrences, recurrenceSlot, SCHEDULED_PAYMENT_MEMO } from './scheduledPayments';
+import { DEBT_ACCOUNT_SOURCE, matchStatement, type ReconciliationResult, type StatementLine } from './reconcile';
 
-// TypeScript interfaces
-export interface PaymentConstants {
-  paymentQuantity: number;
-  maxDailyPayment: number;
-  minDailyPayment: number;
-  paymentDays: readonly number[];
-}
-
-export interface DeadlineConfig {
-  enabled: boolean;
-  endDate: string;
-  showDaysRemaining: boolean;
-  description: string;
-}
-
-export interface PaymentAccounts {
-  [key: string]: string;
-}
-
-export interface AccountConfig {
-  accountId: string;
-  name: string;
-  constants: PaymentConstants;
-  deadlineConfig?: DeadlineConfig;
-  paymentAccounts?: PaymentAccounts;
-}
-
-export interface PaymentHistoryItem {
-  date: string;
-  amount: number;
-  balance: number;
-  cleared?: string;
-  memo?: string;
-}
+// YNAB API client (server-side only, the token must never reach the browser)
+export const ynabAPI = new ynab.API(process.env.YNAB_ACCESS_TOKEN || '');
 
-// YNAB API client
-export const ynabAPI = new ynab.API(process.env.NEXT_PUBLIC_YNAB_ACCESS_TOKEN || '');
-
-const paymentAccounts = {
-      'Efectivo': 'cdc79d30-f609-46fa-b375-a153e808a125',
-      'Yappy': 'ef27071e-07b5-409d-86d2-5cbc39910713'
-    }
-
-// Account configuration mapping
-export const ACCOUNT_CONFIG: Record<string, AccountConfig> = {
-  // Example account configurations - replace with actual account IDs from YNAB
-  'taxi': {
-    accountId: '65dd34f4-7de3-45ac-8605-78a8f27de40f',
-    name: 'Taxi Soluto 2020',
-    constants: {
-      paymentQuantity: 20.00,
-      maxDailyPayment: 30.00,
-      minDailyPayment: 10.00,
-      paymentDays: [1, 2, 3, 4, 5, 6], // Monday to Saturday
-    },
-    // Configuration for deadline-based tracking
-    deadlineConfig: {
-      enabled: true,
-      endDate: '2030-09-30', // Fecha límite para terminar los pagos
-      showDaysRemaining: true, // Mostrar días restantes en lugar del monto
-      description: 'Días de pago restantes'
-    },
-    // Payment method accounts
-    paymentAccounts: paymentAccounts
-  },
-  'l200': {
-    accountId: 'bdd91266-2ac6-42ad-992d-f90ba54a0d94',
-    name: 'Mitsubishi L200 2020',
-    constants: {
-      paymentQuantity: 25.00,
-      maxDailyPayment: 35.00,
-      minDailyPayment: 10.00,
-      paymentDays: [1, 2, 3, 4, 5],
-    },
-      deadlineConfig: {
-      enabled: true,
-      endDate: '2031-09-30',
-      showDaysRemaining: true,
-      description: 'Días de pago restantes'
-    },
-    paymentAccounts: paymentAccounts,
-  },
-      'ian': {
-      accountId: 'e9833956-52e0-4659-a790-73038c056e75',
-      name: 'IAN Préstamo',
-      constants: {
-        paymentQuantity: 25.00,
-        maxDailyPayment: 50.00,
-        minDailyPayment: 10.00,
-        paymentDays: []
-      },
-    },
-    'papa': {
-      accountId: '082adef4-253b-4010-8f57-0cd8d6c1bc05',
-      name: 'Papa Préstamo',
-      constants: {
-        paymentQuantity: 10.00,
-        maxDailyPayment: 20.00,
-        minDailyPayment: 10.00,
-        paymentDays: [1, 2, 3, 4, 5, 6],
-      },
-      paymentAccounts: paymentAccounts,
-    }
-} as const;
-
-export type AccountKey = keyof typeof ACCOUNT_CONFIG;
+// YNAB API helper functions
+// Budgets rarely change, so keep the list in memory instead of spending rate limit on it
+const BUDGETS_TTL_MS = 10 * 60 * 1000;
+let budgetsCache: { fetchedAt: number; budgets: ynab.BudgetSummary[] } | null = null;
 
-// Helper function to get account config from URL parameter
-export function getAccountConfig(accountKey: string): AccountConfig | null {
-  if (accountKey in ACCOUNT_CONFIG) {
-    return ACCOUNT_CONFIG[accountKey as AccountKey];
+export async function getBudgets() {
+  if (budgetsCache && Date.now() - budgetsCache.fetchedAt < BUDGETS_TTL_MS) {
+    return budgetsCache.budgets;
   }
-  return null;
-}
 
-// YNAB API helper functions
-export async function getBudgets() {
   try {
     const budgetsResponse = await ynabAPI.budgets.getBudgets();
+    budgetsCache = { fetchedAt: Date.now(), budgets: budgetsResponse.data.budgets };
     return budgetsResponse.data.budgets;
   } catch (error) {
     console.error('Error fetching budgets:', error);
@@ -137,6 +77,25 @@ export async function getAccount(budgetId: string, accountId: string) {
   }
 }
 
+// YNAB records a transfer as a transaction whose payee is the other account's transfer payee
+async function getTransferPayeeId(budgetId: string, accountId: string): Promise<string> {
+  const account = await getAccount(budgetId, accountId);
+  if (!account.transfer_payee_id) {
+    throw new HttpError(400, `Account "${account.name}" can't receive transfers`);
+  }
+  return account.transfer_payee_id;
+}
+
+export async function getAccounts(budgetId: string) {
+  try {
+    const accountsResponse = await ynabAPI.accounts.getAccounts(budgetId);
+    return accountsResponse.data.accounts;
+  } catch (error) {
+    console.error('Error fetching accounts:', error);
+    throw error;
+  }
+}
+
 export async function getTransactions(budgetId: string, accountId: string, sinceDate?: string) {
   try {
     const transactionsResponse = await ynabAPI.transactions.getTransactionsByAccount(
@@ -151,56 +110,43 @@ export async function getTransactions(budgetId: string, accountId: string, since
   }
 }
 
-// Helper function to convert YNAB milliunits to regular currency
-export function milliunitsToCurrency(milliunits: number): number {
-  return milliunits / 1000;
+// Fetch only the transactions changed since lastKnowledgeOfServer (all of them when omitted)
+export async function getTransactionsDelta(budgetId: string, accountId: string, lastKnowledgeOfServer?: number) {
+  try {
+    const transactionsResponse = await ynabAPI.transactions.getTransactionsByAccount(
+      budgetId,
+      accountId,
+      undefined,
+      undefined,
+      lastKnowledgeOfServer
+    );
+    return transactionsResponse.data;
+  } catch (error) {
+    console.error('Error fetching transaction changes:', error);
+    throw error;
+  }
 }
 
-// Helper function to convert currency to YNAB milliunits
-export function currencyToMilliunits(amount: number): number {
-  return Math.round(amount * 1000);
+// YNAB caps import_id at 36 characters, so the key parts are hashed
+export function buildImportId(accountId: string, date: string, method: string, nonce: string): string {
+  const hash = createHash('sha256').update(`${accountId}|${date}|${method}|${nonce}`).digest('hex');
+  return `DT:${date}:${hash.slice(0, 22)}`;
 }
 
-// Helper function to calculate payment days remaining until deadline
-export function calculatePaymentDaysRemaining(
-  endDate: string,
-  paymentDays: readonly number[],
-  paymentHistory: PaymentHistoryItem[]
-): number {
-  const today = dayjs();
-  const deadline = dayjs(endDate);
-
-  // Count all payment days from today until deadline
-  let paymentDaysCount = 0;
-  let currentDate = today;
-
-  while (currentDate.isBefore(deadline) || currentDate.isSame(deadline, 'day')) {
-    const dayOfWeek = currentDate.day(); // 0 = Sunday, 1 = Monday, etc.
-    if (paymentDays.includes(dayOfWeek)) {
-      paymentDaysCount++;
+// Save one transaction; null when YNAB already has one with the same import_id on that account
+async function saveTransaction(budgetId: string, transaction: ynab.NewTransaction) {
+  try {
+    const response = await ynabAPI.transactions.createTransaction(budgetId, { transaction });
+    if (transaction.import_id && response.data.duplicate_import_ids?.includes(transaction.import_id)) {
+      return null;
     }
-    currentDate = currentDate.add(1, 'day');
+    return response.data.transaction ?? null;
+  } catch (error) {
+    if (transaction.import_id && isYnabConflict(error)) {
+      return null;
+    }
+    throw error;
   }
-
-  // Subtract days where payments were already made
-  const paidDays = paymentHistory.filter(payment => {
-    const paymentDate = dayjs(payment.date);
-    const dayOfWeek = paymentDate.day();
-    return paymentDate.isAfter(today.subtract(1, 'day')) && // Include today
-           paymentDate.isBefore(deadline.add(1, 'day')) && // Include deadline
-           paymentDays.includes(dayOfWeek) &&
-           payment.amount >= 0; // Count both regular payments and blank payments
-  }).length;
-
-  return Math.max(0, paymentDaysCount - paidDays);
-}
-
-// Helper function to get days until deadline
-export function getDaysUntilDeadline(endDate: string): number {
-  const today = dayjs();
-  const deadline = dayjs(endDate);
-  const diffDays = deadline.diff(today, 'day');
-  return Math.max(0, diffDays);
 }
 
 // Create a new transaction in YNAB
@@ -209,7 +155,9 @@ export async function createTransaction(
   accountId: string,
   amount: number,
   payeeName: string,
-  memo?: string
+  memo?: string,
+  date = dayjs().format('YYYY-MM-DD'),
+  importId?: string
 ) {
   try {
     const transactionData = {
@@ -218,14 +166,11 @@ export async function createTransaction(
       amount: currencyToMilliunits(-Math.abs(amount)), // Negative for payments (reduces debt)
       memo: memo || '',
       cleared: 'uncleared' as const,
-      date: dayjs().format('YYYY-MM-DD')
+      date,
+      import_id: importId
     };
 
-    const response = await ynabAPI.transactions.createTransaction(budgetId, {
-      transaction: transactionData
-    });
-
-    return response.data.transaction;
+    return await saveTransaction(budgetId, transactionData);
   } catch (error) {
     console.error('Error creating transaction:', error);
     throw error;
@@ -238,26 +183,782 @@ export async function createTransferTransaction(
   fromAccountId: string,
   toAccountId: string,
   amount: number,
-  memo?: string
+  memo?: string,
+  date = dayjs().format('YYYY-MM-DD'),
+  importId?: string
 ) {
   try {
-    // Create the outflow transaction (from payment account)
+    // Create the outflow transaction (from payment account); YNAB adds the other side of the pair
     const outflowTransaction = {
       account_id: fromAccountId,
-      transfer_account_id: toAccountId,
+      payee_id: await getTransferPayeeId(budgetId, toAccountId),
       amount: currencyToMilliunits(-Math.abs(amount)), // Negative (money leaving account)
       memo: memo || '',
       cleared: 'uncleared' as const,
-      date: dayjs().format('YYYY-MM-DD')
+      date,
+      import_id: importId
     };
 
-    const response = await ynabAPI.transactions.createTransaction(budgetId, {
-      transaction: outflowTransaction
+    return await saveTransaction(budgetId, outflowTransaction);
+  } catch (error) {
+    console.error('Error creating transfer transaction:', error);
+    throw error;
+  }
+}
+
+// YNAB errors are thrown as the parsed response body: { error: { id, name, detail } }
+function hasYnabErrorId(error: unknown, status: string): boolean {
+  const id = (error as { error?: { id?: string } } | null)?.error?.id;
+  return typeof id === 'string' && id.startsWith(status);
+}
+
+function isYnabNotFound(error: unknown): boolean {
+  return hasYnabErrorId(error, '404');
+}
+
+function isYnabConflict(error: unknown): boolean {
+  return hasYnabErrorId(error, '409');
+}
+
+// Resolve the budget to use: the pinned budgetId, or the only budget in YNAB
+export async function resolveBudgetId(budgetId: string | undefined, context: string): Promise<string> {
+  if (budgetId) {
+    return budgetId;
+  }
+
+  const budgets = await getBudgets();
+  if (budgets.length === 0) {
+    throw new HttpError(404, 'No budgets found in YNAB account');
+  }
+  if (budgets.length > 1) {
+    throw new HttpError(
+      409,
+      `${context} has no budget selected and your YNAB account has ${budgets.length} budgets. Pick one in the settings page.`
+    );
+  }
+  return budgets[0].id;
+}
+
+// Budget that holds a configured account
+function resolveAccountBudgetId(config: AccountConfig): Promise<string> {
+  return resolveBudgetId(config.budgetId, `"${config.name}"`);
+}
+
+// Fetch the debt account of a config, failing clearly when it is not in the chosen budget
+async function getConfiguredAccount(budgetId: string, config: AccountConfig) {
+  try {
+    return await getAccount(budgetId, config.accountId);
+  } catch (error) {
+    if (!isYnabNotFound(error)) {
+      throw error;
+    }
+    const budgets = await getBudgets().catch(() => []);
+    const budgetName = budgets.find((budget) => budget.id === budgetId)?.name || budgetId;
+    throw new HttpError(
+      404,
+      `YNAB account ${config.accountId} of "${config.name}" does not exist in budget "${budgetName}". Check the budget and account in the settings page.`
+    );
+  }
+}
+
+// Check that the debt and payment accounts of a config exist in its budget
+export async function verifyAccountConfig(config: AccountConfig): Promise<void> {
+  const budgetId = await resolveAccountBudgetId(config);
+  let accounts;
+  try {
+    accounts = await getAccounts(budgetId);
+  } catch (error) {
+    if (isYnabNotFound(error)) {
+      throw new HttpError(400, `Budget ${budgetId} does not exist in YNAB`);
+    }
+    throw error;
+  }
+
+  const accountIds = new Set(accounts.filter((account) => !account.deleted).map((account) => account.id));
+  const issues: string[] = [];
+  if (!accountIds.has(config.accountId)) {
+    issues.push(`accountId: ${config.accountId} does not exist in the selected budget`);
+  }
+  for (const method of getPaymentMethods(config)) {
+    if (method.accountId && !accountIds.has(method.accountId)) {
+      issues.push(`${method.name}: ${method.accountId} does not exist in the selected budget`);
+    }
+  }
+  if (issues.length > 0) {
+    throw new HttpError(400, issues.join('\n'));
+  }
+}
+
+// Minimum time between two delta requests for the same account
+const SYNC_INTERVAL_MS = Number(process.env.YNAB_SYNC_INTERVAL_SECONDS || 60) * 1000;
+const pendingSyncs = new Map<string, Promise<AccountCache>>();
+
+// Apply a YNAB delta to the cached transactions, dropping the deleted ones
+function mergeTransactions(cached: ynab.TransactionDetail[], changes: ynab.TransactionDetail[]) {
+  const byId = new Map(cached.map((t) => [t.id, t]));
+  for (const transaction of changes) {
+    if (transaction.deleted) {
+      byId.delete(transaction.id);
+    } else {
+      byId.set(transaction.id, transaction);
+    }
+  }
+  return Array.from(byId.values());
+}
+
+async function runAccountSync(budgetId: string, config: AccountConfig, force: boolean): Promise<AccountCache> {
+  const cached = await readAccountCache(budgetId, config.accountId);
+  if (cached && !force && Date.now() - cached.syncedAt < SYNC_INTERVAL_MS) {
+    return cached;
+  }
+
+  // The account lookup also reports an accountId that is not in the budget
+  const account = await getConfiguredAccount(budgetId, config);
+  const delta = await getTransactionsDelta(budgetId, config.accountId, cached?.serverKnowledge);
+
+  const next: AccountCache = {
+    serverKnowledge: delta.server_knowledge,
+    syncedAt: Date.now(),
+    balance: account.balance,
+    transactions: mergeTransactions(cached?.transactions || [], delta.transactions),
+  };
+  await writeAccountCache(budgetId, config.accountId, next);
+  return next;
+}
+
+// Return the locally cached account, fetching only what changed in YNAB since the last sync
+export async function syncAccount(budgetId: string, config: AccountConfig, force = false): Promise<AccountCache> {
+  const cacheKey = `${budgetId}_${config.accountId}`;
+  const pending = pendingSyncs.get(cacheKey);
+  if (pending && !force) {
+    return pending;
+  }
+
+  // A forced sync must see YNAB as it is now, so it runs after the one in flight instead of sharing it
+  const sync: Promise<AccountCache> = (pending ? pending.catch(() => undefined) : Promise.resolve())
+    .then(() => runAccountSync(budgetId, config, force))
+    .finally(() => {
+      if (pendingSyncs.get(cacheKey) === sync) pendingSyncs.delete(cacheKey);
+    });
+  pendingSyncs.set(cacheKey, sync);
+  return sync;
+}
+
+// Force the next read of an account to ask YNAB for changes, e.g. after registering a payment
+async function markAccountStale(budgetId: string, accountId: string) {
+  const cached = await readAccountCache(budgetId, accountId);
+  if (cached) {
+    await writeAccountCache(budgetId, accountId, { ...cached, syncedAt: 0 });
+  }
+}
+
+// Build the browser-facing summary for a configured account
+function toAccountSummary(key: string, config: AccountConfig, balance: number): AccountSummary {
+  return {
+    key,
+    name: config.name,
+    // The account balance IS the total debt (for debt accounts, balance is negative)
+    balance: milliunitsToCurrency(Math.abs(balance)),
+    constants: config.constants,
+    deadlineConfig: config.deadlineConfig,
+    interest: config.interest,
+    paymentMethods: getPaymentMethods(config),
+  };
+}
+
+// Method a payment was registered with: the payment account it went to, or the "Pago <method>" payee
+function paymentMethodOf(transaction: ynab.TransactionDetail, paymentAccounts?: PaymentAccounts): string | undefined {
+  if (transaction.transfer_account_id) {
+    return Object.entries(paymentAccounts || {}).find(([, accountId]) => accountId === transaction.transfer_account_id)?.[0];
+  }
+  return transaction.payee_name?.startsWith('Pago ') ? transaction.payee_name.slice('Pago '.length) : undefined;
+}
+
+// Convert YNAB transactions to payment history, newest first. Each item carries the
+// remaining debt right after it, found by walking back from the current balance.
+// Scheduled payments YNAB entered by itself are left out.
+function toPaymentHistory(
+  transactions: ynab.TransactionDetail[],
+  currentBalance: number,
+  paymentAccounts?: PaymentAccounts
+): PaymentHistoryItem[] {
+  let runningBalance = currentBalance;
+  const sorted = [...transactions]
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()); // Sort by date descending (newest first)
+
+  // Payments move the balance toward zero, charges away from it. Once the debt is paid off,
+  // the starting balance (the oldest transaction) tells which way the debt goes.
+  const debtSign = Math.sign(currentBalance) || Math.sign(sorted[sorted.length - 1]?.amount ?? 0);
+
+  return sorted
+    .flatMap((t) => {
+      const item = {
+        id: t.id,
+        date: t.date,
+        amount: milliunitsToCurrency(Math.abs(t.amount)),
+        balance: milliunitsToCurrency(Math.abs(runningBalance)),
+        cleared: t.cleared,
+        memo: t.memo || undefined,
+        method: paymentMethodOf(t, paymentAccounts),
+        charge: t.amount !== 0 && Math.sign(t.amount) === debtSign
+      };
+      runningBalance -= t.amount;
+      // YNAB enters the scheduled payments this app creates on their own date. Those aren't
+      // payments the user made, so only the balance walk sees them and the real one still counts.
+      return t.memo?.startsWith(SCHEDULED_PAYMENT_MEMO) ? [] : [item];
     });
+}
 
-    return response.data.transaction;
+export async function getAccountSummary(key: string, config: AccountConfig): Promise<AccountSummary> {
+  const budgetId = await resolveAccountBudgetId(config);
+  const cache = await syncAccount(budgetId, config);
+  return toAccountSummary(key, config, cache.balance);
+}
+
+// Summaries of every configured account with the payments needed for today's status.
+// An account that fails to load is listed with its error instead of failing the others.
+export async function getAccountOverviews(configs: Record<string, AccountConfig>): Promise<AccountOverviewEntry[]> {
+  // Start a day early so a browser behind the server's timezone still sees its "today"
+  const sinceDate = dayjs().subtract(1, 'day').format('YYYY-MM-DD');
+
+  const entries = Object.entries(configs);
+  const results = await Promise.allSettled(entries.map(async ([key, config]): Promise<AccountOverview> => {
+    const budgetId = await resolveAccountBudgetId(config);
+    const cache = await syncAccount(budgetId, config);
+    return {
+      ...toAccountSummary(key, config, cache.balance),
+      recentPayments: toPaymentHistory(cache.transactions, cache.balance).filter((p) => p.date >= sinceDate),
+    };
+  }));
+
+  return results.map((result, index) => {
+    if (result.status === 'fulfilled') {
+      return result.value;
+    }
+    const [key, config] = entries[index];
+    console.error(`Error loading account "${key}":`, result.reason);
+    return { key, name: config.name, error: describeAccountError(result.reason, config) };
+  });
+}
+
+// Message shown for an account that could not be loaded
+function describeAccountError(error: unknown, config: AccountConfig): string {
+  if (error instanceof HttpError) {
+    return error.message;
+  }
+  if (isYnabNotFound(error)) {
+    return `YNAB account ${config.accountId} of "${config.name}" was not found. Check the budget and account in the settings page.`;
+  }
+  return `"${config.name}" could not be loaded from YNAB.`;
+}
+
+// List the budgets that can be picked for an account
+export async function listYnabBudgets(): Promise<YnabBudgetOption[]> {
+  const budgets = await getBudgets();
+  return budgets.map((budget) => ({ id: budget.id, name: budget.name }));
+}
+
+// List the YNAB accounts that can be picked as debt or payment accounts
+export async function listYnabAccounts(budgetId: string): Promise<YnabAccountOption[]> {
+  const accounts = await getAccounts(budgetId);
+
+  return accounts
+    .filter((account) => !account.deleted)
+    .map((account) => ({
+      id: account.id,
+      name: account.name,
+      type: account.type,
+      balance: milliunitsToCurrency(account.balance),
+      closed: account.closed,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Most recent transactions of an account as payment history
+export async function getPaymentHistory(config: AccountConfig, limit = 20): Promise<PaymentHistoryItem[]> {
+  const budgetId = await resolveAccountBudgetId(config);
+  const cache = await syncAccount(budgetId, config);
+  return toPaymentHistory(cache.transactions, cache.balance, getPaymentAccounts(config)).slice(0, limit);
+}
+
+// Every entry of one month (YYYY-MM), for the payment calendar
+export async function getCalendarMonth(config: AccountConfig, month: string): Promise<CalendarMonth> {
+  const budgetId = await resolveAccountBudgetId(config);
+  const cache = await syncAccount(budgetId, config);
+  const history = toPaymentHistory(cache.transactions, cache.balance, getPaymentAccounts(config));
+  return {
+    month,
+    trackingStart: history.length > 0 ? history[history.length - 1].date : null,
+    entries: history.filter((entry) => entry.date.startsWith(`${month}-`)),
+  };
+}
+
+// Remaining debt per day over the requested range
+export async function getBalanceHistory(config: AccountConfig, range: BalanceRange): Promise<BalancePoint[]> {
+  const budgetId = await resolveAccountBudgetId(config);
+  const cache = await syncAccount(budgetId, config);
+  return buildBalanceHistory(toPaymentHistory(cache.transactions, cache.balance), getBalanceRangeStart(range));
+}
+
+// Streaks, missed days and totals over the account's full history
+export async function getAdherenceStats(config: AccountConfig): Promise<AdherenceStats> {
+  const budgetId = await resolveAccountBudgetId(config);
+  const cache = await syncAccount(budgetId, config);
+  return computeAdherence(
+    getPaymentSchedule(config.constants),
+    config.constants.paymentQuantity,
+    toPaymentHistory(cache.transactions, cache.balance)
+  );
+}
+
+// Remaining debt and full payment history of an account, for the reminder checks
+export async function getReminderSnapshot(config: AccountConfig): Promise<{ balance: number; history: PaymentHistoryItem[] }> {
+  const budgetId = await resolveAccountBudgetId(config);
+  const cache = await syncAccount(budgetId, config);
+  return {
+    balance: milliunitsToCurrency(Math.abs(cache.balance)),
+    history: toPaymentHistory(cache.transactions, cache.balance),
+  };
+}
+
+// Payment history of an account as export rows
+export async function getHistoryExport(key: string, config: AccountConfig, options: ExportOptions): Promise<HistoryExportRow[]> {
+  const budgetId = await resolveAccountBudgetId(config);
+  const cache = await syncAccount(budgetId, config);
+  return toHistoryExportRows(key, toPaymentHistory(cache.transactions, cache.balance, getPaymentAccounts(config)), options);
+}
+
+// Projected payments of an account as export rows, empty when the schedule never pays it off
+export async function getScheduleExport(key: string, config: AccountConfig, options: ExportOptions): Promise<ScheduleExportRow[]> {
+  const budgetId = await resolveAccountBudgetId(config);
+  const cache = await syncAccount(budgetId, config);
+  const payments = projectPaymentSchedule({
+    balance: milliunitsToCurrency(Math.abs(cache.balance)),
+    paymentQuantity: config.constants.paymentQuantity,
+    schedule: getPaymentSchedule(config.constants),
+    paidToday: madePaymentOn(toPaymentHistory(cache.transactions, cache.balance), dayjs().format('YYYY-MM-DD')),
+    interest: config.interest,
+  });
+  return toScheduleExportRows(key, payments ?? [], options);
+}
+
+// iCalendar feed of an account's payment days, with the projected amount of each upcoming one
+export async function getPaymentCalendarFeed(key: string, config: AccountConfig): Promise<string> {
+  const budgetId = await resolveAccountBudgetId(config);
+  const cache = await syncAccount(budgetId, config);
+  const history = toPaymentHistory(cache.transactions, cache.balance, getPaymentAccounts(config));
+  const schedule = getPaymentSchedule(config.constants);
+  return buildPaymentCalendarFeed({
+    key,
+    name: config.name,
+    schedule,
+    paymentQuantity: config.constants.paymentQuantity,
+    deadlineConfig: config.deadlineConfig,
+    history,
+    projected: projectPaymentSchedule({
+      balance: milliunitsToCurrency(Math.abs(cache.balance)),
+      paymentQuantity: config.constants.paymentQuantity,
+      schedule,
+      paidToday: madePaymentOn(history, dayjs().format('YYYY-MM-DD')),
+      interest: config.interest,
+    }),
+  });
+}
+
+// A configured payment method of the account, or a 400 listing the ones that exist
+function requirePaymentMethod(config: AccountConfig, name: string): PaymentMethodConfig {
+  const methods = getPaymentMethods(config);
+  const method = findPaymentMethod(methods, name);
+  if (!method) {
+    const known = methods.map((option) => option.name).join(', ') || 'none configured';
+    throw new HttpError(400, `"${name}" is not a payment method of "${config.name}" (${known})`);
+  }
+  return method;
+}
+
+// Import id of the fee charged with a payment. It derives from the payment's own import id
+// (DT:<date>:<hash>), so the fee can be found again from the payment alone.
+function buildFeeImportId(paymentImportId: string, method: PaymentMethodConfig): string {
+  const date = paymentImportId.slice('DT:'.length, 'DT:YYYY-MM-DD'.length);
+  return buildImportId(method.accountId ?? '', date, `${method.name}:fee`, paymentImportId);
+}
+
+// Charge the method's fee to its payment account as an expense of its own. A retried payment
+// never charges twice, and a fee that failed is retried with it.
+async function recordPaymentFee(
+  budgetId: string,
+  config: AccountConfig,
+  method: PaymentMethodConfig,
+  amount: number,
+  paymentImportId: string,
+  date: string
+) {
+  const fee = getPaymentMethodFee(method, amount);
+  if (!method.accountId || fee <= 0) return;
+  const importId = buildFeeImportId(paymentImportId, method);
+  await createTransaction(budgetId, method.accountId, fee, `Comisión ${method.name}`, `Comisión del pago de ${config.name}`, date, importId);
+}
+
+// Fee transaction charged with a payment, looked up in the method's account by its import id
+async function findPaymentFee(
+  budgetId: string,
+  payment: ynab.TransactionDetail,
+  method: PaymentMethodConfig | undefined
+): Promise<ynab.TransactionDetail | null> {
+  if (!method?.accountId || !payment.import_id?.startsWith('DT:')) return null;
+  const importId = buildFeeImportId(payment.import_id, method);
+  // The fee follows the payment's date, but may still be on the day it was registered
+  const registeredOn = payment.import_id.slice('DT:'.length, 'DT:YYYY-MM-DD'.length);
+  const sinceDate = registeredOn < payment.date ? registeredOn : payment.date;
+  try {
+    const response = await ynabAPI.transactions.getTransactionsByAccount(budgetId, method.accountId, sinceDate);
+    return response.data.transactions.find((transaction) => transaction.import_id === importId && !transaction.deleted) ?? null;
   } catch (error) {
-    console.error('Error creating transfer transaction:', error);
+    console.error('Error fetching payment fee:', error);
     throw error;
   }
 }
+
+// Keep the fee of a corrected payment in step with it: the new amount and date, or the new
+// method's fee in place of the old one. A payment registered without a fee keeps none.
+async function adjustPaymentFee(budgetId: string, config: AccountConfig, payment: ynab.TransactionDetail, update: PaymentUpdate) {
+  const methods = getPaymentMethods(config);
+  const previousName = paymentMethodOf(payment, getPaymentAccounts(config));
+  const previous = previousName ? findPaymentMethod(methods, previousName) : undefined;
+  const next = update.method !== undefined ? findPaymentMethod(methods, update.method) : previous;
+  const fee = await findPaymentFee(budgetId, payment, previous);
+  const amount = update.amount ?? milliunitsToCurrency(Math.abs(payment.amount));
+  const date = update.date ?? payment.date;
+
+  try {
+    if (fee && next === previous && previous) {
+      const feeAmount = getPaymentMethodFee(previous, amount);
+      if (feeAmount > 0) {
+        await ynabAPI.transactions.updateTransaction(budgetId, fee.id, {
+          transaction: { amount: currencyToMilliunits(-feeAmount), date },
+        });
+        return;
+      }
+    }
+    if (fee) {
+      await ynabAPI.transactions.deleteTransaction(budgetId, fee.id);
+    }
+  } catch (error) {
+    console.error('Error adjusting payment fee:', error);
+    throw error;
+  }
+  if (next && next !== previous && payment.import_id?.startsWith('DT:')) {
+    await recordPaymentFee(budgetId, config, next, amount, payment.import_id, date);
+  }
+}
+
+// Register a payment against a debt account with one of its configured methods: a transfer from
+// the method's account, or a plain payment for a method set up without one
+export async function registerPayment(
+  config: AccountConfig,
+  method: string,
+  amount: number,
+  nonce: string,
+  date = dayjs().format('YYYY-MM-DD'),
+  memo?: string
+): Promise<PaymentResult> {
+  const paymentMethod = requirePaymentMethod(config, method);
+  const budgetId = await resolveAccountBudgetId(config);
+  const importId = buildImportId(config.accountId, date, method, nonce);
+
+  // A retry of a payment YNAB already has must not be rejected by the daily cap it now counts toward
+  const cache = await syncAccount(budgetId, config, true);
+  if (cache.transactions.some((transaction) => transaction.import_id === importId)) {
+    await recordPaymentFee(budgetId, config, paymentMethod, amount, importId, date);
+    return { duplicate: true, transactionId: null };
+  }
+
+  // Enforce the min/max daily bounds against what was already paid that day
+  const paidThatDay = getTotalPaidOn(toPaymentHistory(cache.transactions, cache.balance), date);
+  const rejection = validatePaymentAmount(amount, config.constants, paidThatDay) ?? validateMethodAmount(amount, paymentMethod);
+  if (rejection) {
+    throw new HttpError(422, rejection);
+  }
+
+  let transaction;
+  if (paymentMethod.accountId) {
+    // Create transfer transaction from debt account to payment account
+    transaction = await createTransferTransaction(
+      budgetId,
+      config.accountId,
+      paymentMethod.accountId,
+      amount,
+      memo ?? `Pago de deuda vía ${method}`,
+      date,
+      importId
+    );
+  } else {
+    // The method was set up without an account: a plain payment with the "Pago <method>" payee
+    transaction = await createTransaction(
+      budgetId,
+      config.accountId,
+      amount,
+      `Pago ${method}`,
+      memo ?? `Pago registrado vía ${method}`,
+      date,
+      importId
+    );
+  }
+  await recordPaymentFee(budgetId, config, paymentMethod, amount, importId, date);
+
+  await markAccountStale(budgetId, config.accountId);
+
+  // The last payment also ends the plan's scheduled transactions
+  if (config.ynabSchedule?.enabled && Math.abs(cache.balance) <= currencyToMilliunits(amount)) {
+    await syncScheduledPayments(config).catch((error) => {
+      console.error('Error removing scheduled payments of a paid-off debt:', error);
+    });
+  }
+  return { duplicate: transaction === null, transactionId: transaction?.id ?? null };
+}
+
+// Register a $0 transaction explaining why no payment was made that day
+export async function registerBlankPayment(
+  config: AccountConfig,
+  reason: string,
+  nonce: string,
+  date = dayjs().format('YYYY-MM-DD')
+): Promise<PaymentResult> {
+  const budgetId = await resolveAccountBudgetId(config);
+  const importId = buildImportId(config.accountId, date, 'blank', nonce);
+  const transaction = await createTransaction(budgetId, config.accountId, 0, 'No hare un pago hoy', reason, date, importId);
+  await markAccountStale(budgetId, config.accountId);
+  return { duplicate: transaction === null, transactionId: transaction?.id ?? null };
+}
+
+// Registered transaction of this debt account, from the freshly synced cache
+function findPayment(cache: AccountCache, config: AccountConfig, transactionId: string): ynab.TransactionDetail {
+  const transaction = cache.transactions.find((t) => t.id === transactionId);
+  if (!transaction) {
+    throw new HttpError(404, `Transaction "${transactionId}" not found in "${config.name}"`);
+  }
+  return transaction;
+}
+
+// Correct a registered payment. Date and amount changes reach both sides of a transfer through YNAB.
+export async function updatePayment(config: AccountConfig, transactionId: string, update: PaymentUpdate) {
+  const budgetId = await resolveAccountBudgetId(config);
+  const cache = await syncAccount(budgetId, config, true);
+  const transaction = findPayment(cache, config, transactionId);
+
+  const isBlank = transaction.amount === 0;
+  if (isBlank && (update.amount !== undefined || update.method !== undefined)) {
+    throw new HttpError(400, 'Only the date and reason of a blank payment can be changed');
+  }
+
+  // The corrected payment must still fit the daily bounds of its (possibly new) day
+  if (!isBlank) {
+    const amount = update.amount ?? milliunitsToCurrency(Math.abs(transaction.amount));
+    const others = toPaymentHistory(cache.transactions.filter((t) => t.id !== transactionId), cache.balance);
+    // Payments the app didn't register have no method, so only the daily bounds apply to them
+    const methodName = update.method ?? paymentMethodOf(transaction, getPaymentAccounts(config));
+    const method = methodName ? findPaymentMethod(getPaymentMethods(config), methodName) : undefined;
+    const rejection = validatePaymentAmount(amount, config.constants, getTotalPaidOn(others, update.date ?? transaction.date))
+      ?? (method ? validateMethodAmount(amount, method) : null);
+    if (rejection) {
+      throw new HttpError(422, rejection);
+    }
+  }
+
+  const changes: ynab.ExistingTransaction = {};
+  if (update.amount !== undefined) changes.amount = currencyToMilliunits(-Math.abs(update.amount));
+  if (update.date !== undefined) changes.date = update.date;
+  if (update.memo !== undefined) changes.memo = update.memo;
+
+  if (update.method !== undefined && update.method !== paymentMethodOf(transaction, getPaymentAccounts(config))) {
+    const method = requirePaymentMethod(config, update.method);
+    if (method.accountId) {
+      // Re-point the transfer, YNAB moves its other side to the new payment account
+      changes.payee_id = await getTransferPayeeId(budgetId, method.accountId);
+    } else {
+      // A method without an account is a plain payment, which drops any transfer counterpart
+      changes.payee_id = null;
+      changes.payee_name = `Pago ${update.method}`;
+    }
+  }
+
+  try {
+    await ynabAPI.transactions.updateTransaction(budgetId, transactionId, { transaction: changes });
+  } catch (error) {
+    console.error('Error updating transaction:', error);
+    throw error;
+  }
+  if (!isBlank) {
+    await adjustPaymentFee(budgetId, config, transaction, update);
+  }
+  await markAccountStale(budgetId, config.accountId);
+}
+
+// Delete a registered payment together with the other side of its transfer and its fee
+export async function deletePayment(config: AccountConfig, transactionId: string) {
+  const budgetId = await resolveAccountBudgetId(config);
+  const cache = await syncAccount(budgetId, config, true);
+  const transaction = findPayment(cache, config, transactionId);
+  const methodName = paymentMethodOf(transaction, getPaymentAccounts(config));
+  const fee = await findPaymentFee(budgetId, transaction, methodName ? findPaymentMethod(getPaymentMethods(config), methodName) : undefined);
+
+  try {
+    await ynabAPI.transactions.deleteTransaction(budgetId, transactionId);
+    // YNAB normally removes the counterpart itself; make sure no orphan is left in the payment account
+    if (transaction.transfer_transaction_id) {
+      await ynabAPI.transactions.deleteTransaction(budgetId, transaction.transfer_transaction_id).catch((error) => {
+        if (!isYnabNotFound(error)) throw error;
+      });
+    }
+    if (fee) {
+      await ynabAPI.transactions.deleteTransaction(budgetId, fee.id);
+    }
+  } catch (error) {
+    console.error('Error deleting transaction:', error);
+    throw error;
+  }
+  await markAccountStale(budgetId, config.accountId);
+}
+
+// Match statement lines against the payments that went through the statement's account:
+// one payment method's account, or the debt account itself for every payment
+export async function reconcileStatement(
+  config: AccountConfig,
+  source: string,
+  lines: StatementLine[],
+  toleranceDays?: number
+): Promise<ReconciliationResult> {
+  if (source !== DEBT_ACCOUNT_SOURCE && !getPaymentAccounts(config)[source]) {
+    throw new HttpError(400, `"${source}" is not a payment method with an account in "${config.name}"`);
+  }
+
+  const budgetId = await resolveAccountBudgetId(config);
+  const cache = await syncAccount(budgetId, config);
+  const payments = toPaymentHistory(cache.transactions, cache.balance, getPaymentAccounts(config))
+    .filter((entry) => isPayment(entry) && (source === DEBT_ACCOUNT_SOURCE || entry.method === source));
+  return matchStatement(lines, payments, toleranceDays);
+}
+
+// Mark payments as cleared, together with the other side of their transfers.
+// Reconciled transactions are left alone.
+export async function markPaymentsCleared(config: AccountConfig, transactionIds: string[]) {
+  const budgetId = await resolveAccountBudgetId(config);
+  const cache = await syncAccount(budgetId, config, true);
+  const transactions = transactionIds.map((id) => findPayment(cache, config, id));
+
+  // The transfer counterparts live in the payment accounts, one request per account covers them
+  const counterparts = new Map<string, ynab.TransactionDetail>();
+  const transferAccounts = new Set(transactions.flatMap((t) => (t.transfer_account_id ? [t.transfer_account_id] : [])));
+  const sinceDate = transactions.map((t) => t.date).sort()[0];
+  for (const accountId of transferAccounts) {
+    for (const counterpart of await getTransactions(budgetId, accountId, sinceDate)) {
+      counterparts.set(counterpart.id, counterpart);
+    }
+  }
+
+  const updates: ynab.SaveTransactionWithIdOrImportId[] = [];
+  for (const transaction of transactions) {
+    const counterpart = transaction.transfer_transaction_id ? counterparts.get(transaction.transfer_transaction_id) : undefined;
+    for (const side of [transaction, counterpart]) {
+      if (side?.cleared === 'uncleared') {
+        updates.push({ id: side.id, cleared: 'cleared' as const });
+      }
+    }
+  }
+  if (updates.length === 0) return;
+
+  try {
+    await ynabAPI.transactions.updateTransactions(budgetId, { transactions: updates });
+  } catch (error) {
+    console.error('Error clearing transactions:', error);
+    throw error;
+  }
+  await markAccountStale(budgetId, config.accountId);
+}
+
+// Scheduled transactions this app created on a debt account
+async function getOwnScheduledTransactions(budgetId: string, accountId: string) {
+  try {
+    const response = await ynabAPI.scheduledTransactions.getScheduledTransactions(budgetId);
+    return response.data.scheduled_transactions.filter((transaction) => (
+      !transaction.deleted && transaction.account_id === accountId && transaction.memo?.startsWith(SCHEDULED_PAYMENT_MEMO)
+    ));
+  } catch (error) {
+    console.error('Error fetching scheduled transactions:', error);
+    throw error;
+  }
+}
+
+// Create, update or delete YNAB scheduled transactions so they repeat the payment plan.
+// Without an enabled ynabSchedule, or once the debt is paid off, all of them are deleted.
+export async function syncScheduledPayments(config: AccountConfig): Promise<ScheduleSyncResult> {
+  const budgetId = await resolveAccountBudgetId(config);
+  const existing = await getOwnScheduledTransactions(budgetId, config.accountId);
+  const plan = config.ynabSchedule?.enabled ? config.ynabSchedule : null;
+
+  // A paid-off debt has nothing left to schedule
+  const paidOff = plan ? milliunitsToCurrency(Math.abs((await syncAccount(budgetId, config)).balance)) < 0.01 : true;
+
+  let desired: ynab.SaveScheduledTransaction[] = [];
+  if (plan && !paidOff) {
+    const paymentAccountId = getPaymentAccounts(config)[plan.paymentMethod];
+    if (!paymentAccountId) {
+      throw new HttpError(400, `Payment method "${plan.paymentMethod}" has no payment account`);
+    }
+    const recurrences = getScheduledRecurrences(getPaymentSchedule(config.constants));
+    if (!recurrences) {
+      throw new HttpError(422, 'YNAB can only repeat every 1, 7, 14 or 28 days. Change the schedule or leave it out of YNAB.');
+    }
+
+    // Same shape as a registered payment: a transfer on the debt account to the payment account
+    const payeeId = await getTransferPayeeId(budgetId, paymentAccountId);
+    desired = recurrences.map(({ frequency, date }) => ({
+      account_id: config.accountId,
+      payee_id: payeeId,
+      amount: currencyToMilliunits(-Math.abs(config.constants.paymentQuantity)),
+      memo: `${SCHEDULED_PAYMENT_MEMO} vía ${plan.paymentMethod}`,
+      frequency,
+      date,
+    }));
+  }
+
+  const result: ScheduleSyncResult = { created: 0, updated: 0, deleted: 0, unchanged: 0 };
+  const leftovers = [...existing];
+  const tomorrow = dayjs().add(1, 'day').format('YYYY-MM-DD');
+  try {
+    for (const transaction of desired) {
+      const slot = recurrenceSlot(transaction.frequency as string, transaction.date);
+      const index = leftovers.findIndex((current) => recurrenceSlot(current.frequency, current.date_next) === slot);
+      if (index === -1) {
+        await ynabAPI.scheduledTransactions.createScheduledTransaction(budgetId, { scheduled_transaction: transaction });
+        result.created++;
+        continue;
+      }
+
+      const [current] = leftovers.splice(index, 1);
+      if (current.amount === transaction.amount && current.payee_id === transaction.payee_id && current.memo === transaction.memo) {
+        result.unchanged++;
+        continue;
+      }
+      // Keep the date YNAB is already counting from while it is still ahead
+      await ynabAPI.scheduledTransactions.updateScheduledTransaction(budgetId, current.id, {
+        scheduled_transaction: { ...transaction, date: current.date_next >= tomorrow ? current.date_next : transaction.date },
+      });
+      result.updated++;
+    }
+
+    for (const current of leftovers) {
+      await ynabAPI.scheduledTransactions.deleteScheduledTransaction(budgetId, current.id);
+      result.deleted++;
+    }
+  } catch (error) {
+    console.error('Error syncing scheduled transactions:', error);
+    throw error;
+  }
+  return result;
+}
+
+// Delete every scheduled transaction of the plan, e.g. before the account is removed or moved
+export function removeScheduledPayments(config: AccountConfig): Promise<ScheduleSyncResult> {
+  return syncScheduledPayments({ ...config, ynabSchedule: undefined });
+}